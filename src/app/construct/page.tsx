@@ -0,0 +1,19 @@
+import Link from "next/link";
+import Constructor from "@/components/Constructor/Constructor";
+import styles from "../page.module.css";
+
+export default function Construct() {
+  return (
+    <div className={styles.page}>
+      <main className={styles.main}>
+        <div className={styles.headerRow}>
+          <h1>Construct</h1>
+          <Link className={styles.headerBtn} href="/">
+            Play a puzzle
+          </Link>
+        </div>
+        <Constructor />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import Display from "@/components/Display/Display";
+
+export default function DisplayPage() {
+  return <Display />;
+}
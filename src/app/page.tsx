@@ -1,18 +1,26 @@
 "use client";
 
+import Link from "next/link";
 import { useRef, useState } from "react";
 import styles from "./page.module.css";
 import Crossword, { type CrosswordHandle } from "@/components/Crossword/Crossword";
+import type { CheckScope } from "@/lib/game";
 
 export default function Home() {
   const crosswordRef = useRef<CrosswordHandle>(null);
   const [canStart, setCanStart] = useState(false);
   const [hasPuzzle, setHasPuzzle] = useState(false);
+  const [checkScope, setCheckScope] = useState<CheckScope>("board");
   return (
     <div className={styles.page}>
       <main className={styles.main}>
         <div className={styles.headerRow}>
           <h1>Team Crossword</h1>
+          {!hasPuzzle && (
+            <Link className={styles.headerBtn} href="/construct">
+              Make a puzzle
+            </Link>
+          )}
           {hasPuzzle && (
             <>
               <button
@@ -20,7 +28,7 @@ export default function Home() {
                 type="button"
                 onClick={() => crosswordRef.current?.checkPuzzle()}
               >
-                Check Puzzle
+                {checkScope === "entry" ? "Submit Answer" : "Check Puzzle"}
               </button>
               <button
                 className={styles.startBtn}
@@ -37,6 +45,7 @@ export default function Home() {
           ref={crosswordRef}
           onCanStartChange={setCanStart}
           onPuzzleChange={setHasPuzzle}
+          onCheckScopeChange={setCheckScope}
         />
       </main>
     </div>
@@ -0,0 +1,5 @@
+import Replay from "@/components/Replay/Replay";
+
+export default function ReplayPage() {
+  return <Replay />;
+}
@@ -0,0 +1,443 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import crossword from "@/components/Crossword/Crossword.module.css";
+import { useAutofill } from "@/hooks/useAutofill";
+import {
+  clueKey,
+  type Draft,
+  draftEntries,
+  draftGrid,
+  draftProblems,
+  draftToPuz,
+  MAX_DRAFT_SIZE,
+  MIN_DRAFT_SIZE,
+  newDraft,
+  setClue,
+  setLetter,
+  toggleBlock,
+} from "@/lib/construct";
+import { downloadFile, fileNameFor } from "@/lib/download";
+import type { Direction } from "@/lib/game";
+import { type ClueEntry, writePuz } from "@/lib/puz";
+import styles from "./Constructor.module.css";
+
+type Props = {
+  className?: string;
+};
+
+const clampSize = (n: number) =>
+  Math.min(MAX_DRAFT_SIZE, Math.max(MIN_DRAFT_SIZE, Math.round(n) || 0));
+
+// Construct mode: the play grid's look, but every square is editable. Typing
+// fills answers, "." toggles a block, and numbering and the clue lists follow
+// the grid live.
+export default function Constructor({ className }: Props) {
+  const [draft, setDraft] = useState<Draft>(() => newDraft(15, 15));
+  const [size, setSize] = useState({ width: 15, height: 15 });
+  const [symmetric, setSymmetric] = useState(true);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [dir, setDir] = useState<Direction>("across");
+  const inputRefs = useRef<Array<HTMLInputElement | null>>([]);
+  const autofill = useAutofill();
+  const fillFrom = useRef<Draft | null>(null);
+  const [minScore, setMinScore] = useState(0);
+
+  const { width, height } = draft;
+  const entries = useMemo(() => draftEntries(draft), [draft]);
+  const problems = useMemo(() => draftProblems(draft), [draft]);
+
+  const numberMap = useMemo(() => {
+    const m = new Map<number, number>();
+    for (const e of [...entries.across, ...entries.down]) {
+      m.set(e.cells[0].index, e.number);
+    }
+    return m;
+  }, [entries]);
+
+  // The entry under the cursor in the current direction
+  const activeEntry = useMemo(() => {
+    if (activeIndex == null) return undefined;
+    const list = dir === "across" ? entries.across : entries.down;
+    return list.find((e) => e.cells.some((c) => c.index === activeIndex));
+  }, [entries, activeIndex, dir]);
+
+  const focusCell = (i: number) => {
+    setActiveIndex(i);
+    inputRefs.current[i]?.focus();
+  };
+
+  const step = (i: number, delta: 1 | -1) => {
+    const r = Math.floor(i / width);
+    const c = i % width;
+    if (dir === "across") {
+      const nc = c + delta;
+      return nc >= 0 && nc < width ? r * width + nc : i;
+    }
+    const nr = r + delta;
+    return nr >= 0 && nr < height ? nr * width + c : i;
+  };
+
+  const onCellKeyDown = (i: number) => (e: React.KeyboardEvent) => {
+    const r = Math.floor(i / width);
+    const c = i % width;
+    const moveTo = (nr: number, nc: number) => {
+      if (nr >= 0 && nr < height && nc >= 0 && nc < width) {
+        focusCell(nr * width + nc);
+      }
+    };
+    switch (e.key) {
+      case ".":
+        e.preventDefault();
+        setDraft((d) => toggleBlock(d, i, symmetric));
+        focusCell(step(i, 1));
+        return;
+      case " ":
+        e.preventDefault();
+        setDir((d) => (d === "across" ? "down" : "across"));
+        return;
+      case "Backspace":
+        e.preventDefault();
+        if (draft.letters[i]) {
+          setDraft((d) => setLetter(d, i, ""));
+        } else {
+          const prev = step(i, -1);
+          setDraft((d) => setLetter(d, prev, ""));
+          focusCell(prev);
+        }
+        return;
+      case "Delete":
+        e.preventDefault();
+        setDraft((d) => setLetter(d, i, ""));
+        return;
+      case "ArrowRight":
+        e.preventDefault();
+        setDir("across");
+        return moveTo(r, c + 1);
+      case "ArrowLeft":
+        e.preventDefault();
+        setDir("across");
+        return moveTo(r, c - 1);
+      case "ArrowDown":
+        e.preventDefault();
+        setDir("down");
+        return moveTo(r + 1, c);
+      case "ArrowUp":
+        e.preventDefault();
+        setDir("down");
+        return moveTo(r - 1, c);
+      default:
+    }
+  };
+
+  const onCellChange =
+    (i: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      const letter = e.target.value
+        .toUpperCase()
+        .replace(/[^A-Z]/g, "")
+        .slice(-1);
+      if (!letter || draft.blocks[i]) return;
+      setDraft((d) => setLetter(d, i, letter));
+      focusCell(step(i, 1));
+    };
+
+  const resize = () => {
+    const w = clampSize(size.width);
+    const h = clampSize(size.height);
+    setSize({ width: w, height: h });
+    setDraft((d) => ({
+      ...newDraft(w, h),
+      title: d.title,
+      author: d.author,
+      copyright: d.copyright,
+    }));
+    setActiveIndex(null);
+    inputRefs.current = [];
+  };
+
+  // A finished fill replaces the letters; a failed one outlines the slots
+  // that kept failing so the blocks around them can be reworked. A fill for a
+  // grid that has since been typed in or resized is dropped, not laid over it.
+  const { result } = autofill;
+  useEffect(() => {
+    if (result?.status !== "filled") return;
+    setDraft((d) => {
+      const from = fillFrom.current;
+      const unchanged = d.blocks === from?.blocks && d.letters === from.letters;
+      return unchanged ? { ...d, letters: result.letters } : d;
+    });
+  }, [result]);
+  const stuckCells = new Set(
+    result && result.status !== "filled"
+      ? result.stuck.flatMap((slot) => slot.cells)
+      : [],
+  );
+
+  const onWordListFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) autofill.loadWords(await file.text());
+  };
+
+  const exportPuz = () => {
+    downloadFile(
+      fileNameFor(draft.title, ".puz"),
+      writePuz(draftToPuz(draft)) as BlobPart,
+      "application/x-crossword",
+    );
+  };
+
+  const renderClues = (d: Direction, list: ClueEntry[]) => (
+    <div className={crossword.clueColumn}>
+      <div className={crossword.clueSectionTitle}>
+        {d === "across" ? "Across" : "Down"}
+      </div>
+      <ol className={crossword.clueList}>
+        {list.map((e) => {
+          const key = clueKey(d, e);
+          const active = activeEntry === e;
+          return (
+            <li
+              key={key}
+              className={`${crossword.clueItem} ${active ? crossword.clueClaimed : ""}`}
+            >
+              <div className={styles.clueHead}>
+                <strong>{e.number}</strong>
+                <span className={styles.pattern}>
+                  {e.cells.map((c) => draft.letters[c.index] || "·").join("")}
+                </span>
+              </div>
+              <input
+                className={styles.clueInput}
+                value={e.clue}
+                placeholder="Clue"
+                aria-label={`${e.number} ${d} clue`}
+                onFocus={() => {
+                  setActiveIndex(e.cells[0].index);
+                  setDir(d);
+                }}
+                onChange={(ev) => {
+                  const text = ev.target.value;
+                  setDraft((cur) => setClue(cur, key, text));
+                }}
+              />
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+
+  const highlighted = new Set(activeEntry?.cells.map((c) => c.index));
+  const gridStyle = {
+    gridTemplateColumns: `repeat(${width}, var(--cell-size))`,
+  } as React.CSSProperties;
+
+  return (
+    <div className={`${crossword.container} ${className ?? ""}`.trim()}>
+      <div className={crossword.gridWrapper}>
+        <div className={crossword.grid} style={gridStyle}>
+          {draft.blocks.map((isBlock, i) => (
+            <div
+              key={`${Math.floor(i / draft.width)}-${i % draft.width}`}
+              className={`${crossword.cell} ${isBlock ? crossword.block : ""} ${activeIndex === i ? styles.activeCell : ""} ${stuckCells.has(i) ? styles.stuckCell : ""}`}
+            >
+              {numberMap.has(i) ? (
+                <span className={crossword.cellNum}>{numberMap.get(i)}</span>
+              ) : null}
+              <input
+                ref={(el) => {
+                  inputRefs.current[i] = el;
+                }}
+                className={`${crossword.cellInput} ${highlighted.has(i) ? crossword.inputRowHighlight : ""}`}
+                value={isBlock ? "" : draft.letters[i]}
+                aria-label={`Row ${Math.floor(i / width) + 1}, column ${(i % width) + 1}${isBlock ? ", block" : ""}`}
+                autoCapitalize="characters"
+                autoComplete="off"
+                autoCorrect="off"
+                onFocus={() => setActiveIndex(i)}
+                onClick={() => {
+                  if (activeIndex === i) {
+                    setDir((d) => (d === "across" ? "down" : "across"));
+                  }
+                }}
+                onChange={onCellChange(i)}
+                onKeyDown={onCellKeyDown(i)}
+              />
+            </div>
+          ))}
+        </div>
+        <div className={crossword.actions}>
+          <button
+            type="button"
+            className={crossword.btn}
+            disabled={activeIndex == null}
+            onClick={() => {
+              if (activeIndex == null) return;
+              setDraft((d) => toggleBlock(d, activeIndex, symmetric));
+              focusCell(activeIndex);
+            }}
+            title="Toggle a block on the selected square (.)"
+          >
+            Toggle block
+          </button>
+          <label className={crossword.exportOption}>
+            <input
+              type="checkbox"
+              checked={symmetric}
+              onChange={(e) => setSymmetric(e.target.checked)}
+            />
+            <span>Rotational symmetry</span>
+          </label>
+        </div>
+      </div>
+
+      <div className={crossword.clues}>
+        <div className={crossword.cluesColumns}>
+          {renderClues("across", entries.across)}
+          {renderClues("down", entries.down)}
+        </div>
+      </div>
+
+      <div className={styles.panel}>
+        <div className={styles.row}>
+          <label className={styles.field}>
+            <span>Width</span>
+            <input
+              type="number"
+              min={MIN_DRAFT_SIZE}
+              max={MAX_DRAFT_SIZE}
+              value={size.width}
+              onChange={(e) =>
+                setSize((s) => ({ ...s, width: Number(e.target.value) }))
+              }
+            />
+          </label>
+          <label className={styles.field}>
+            <span>Height</span>
+            <input
+              type="number"
+              min={MIN_DRAFT_SIZE}
+              max={MAX_DRAFT_SIZE}
+              value={size.height}
+              onChange={(e) =>
+                setSize((s) => ({ ...s, height: Number(e.target.value) }))
+              }
+            />
+          </label>
+          <button
+            type="button"
+            className={crossword.btn}
+            onClick={resize}
+            title="Start over with an empty grid of this size"
+          >
+            New grid
+          </button>
+        </div>
+        {(["title", "author", "copyright"] as const).map((field) => (
+          <label key={field} className={styles.field}>
+            <span>{field[0].toUpperCase() + field.slice(1)}</span>
+            <input
+              value={draft[field]}
+              onChange={(e) => {
+                const value = e.target.value;
+                setDraft((d) => ({ ...d, [field]: value }));
+              }}
+            />
+          </label>
+        ))}
+        <div className={styles.section}>
+          <div className={crossword.clueSectionTitle}>Autofill</div>
+          <label className={styles.field}>
+            <span>
+              Word list (one per line, optional score: <code>WORD;50</code>)
+            </span>
+            <input
+              type="file"
+              accept=".txt,.dict,.csv,text/plain"
+              onChange={onWordListFile}
+            />
+          </label>
+          {autofill.wordCount != null ? (
+            <span className={styles.help}>
+              {autofill.wordCount.toLocaleString()} words loaded
+            </span>
+          ) : null}
+          <div className={styles.row}>
+            <label className={styles.field}>
+              <span>Min score</span>
+              <input
+                type="number"
+                value={minScore}
+                onChange={(e) => setMinScore(Number(e.target.value) || 0)}
+              />
+            </label>
+            {autofill.status === "filling" ? (
+              <button
+                type="button"
+                className={crossword.btn}
+                onClick={autofill.stop}
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                type="button"
+                className={crossword.btn}
+                disabled={!autofill.wordCount || autofill.status !== "idle"}
+                onClick={() => {
+                  fillFrom.current = draft;
+                  autofill.fill(draftGrid(draft), width, height, minScore);
+                }}
+                title="Fill every empty square from the word list"
+              >
+                Fill grid
+              </button>
+            )}
+          </div>
+          {autofill.status === "loading" ? (
+            <span className={styles.help}>Reading word list…</span>
+          ) : null}
+          {autofill.status === "filling" ? (
+            <span className={styles.help}>
+              Filling… {autofill.steps.toLocaleString()} dead ends so far
+            </span>
+          ) : null}
+          {result && result.status !== "filled" ? (
+            <span className={styles.error}>
+              {result.status === "gave-up"
+                ? "Gave up without finding a fill."
+                : "No fill exists with this word list."}{" "}
+              {result.stuck.length
+                ? `Trouble spots (outlined): ${result.stuck
+                    .map((slot) => `${slot.number} ${slot.direction}`)
+                    .join(", ")}.`
+                : ""}
+            </span>
+          ) : null}
+        </div>
+        <ul className={styles.problems}>
+          {problems.errors.map((p) => (
+            <li key={p} className={styles.error}>
+              {p}
+            </li>
+          ))}
+          {problems.warnings.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+        <button
+          type="button"
+          className={crossword.btn}
+          disabled={problems.errors.length > 0}
+          onClick={exportPuz}
+        >
+          Export .puz
+        </button>
+        <p className={styles.help}>
+          Type to fill answers; <kbd>.</kbd> toggles a block, <kbd>Space</kbd>{" "}
+          switches direction.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,61 @@
 "use client";
 
-import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react";
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useReducer, useRef, useState } from "react";
 import styles from "./Crossword.module.css";
-import type { ParsedPuz } from "@/lib/puz";
-import { parsePuz } from "@/lib/puz";
+import RoomPanel from "@/components/RoomPanel/RoomPanel";
+import HostPanel from "@/components/HostPanel/HostPanel";
+import Summary from "@/components/Summary/Summary";
+import TournamentPanel from "@/components/TournamentPanel/TournamentPanel";
+import { useRoom } from "@/hooks/useRoom";
+import { useTournament } from "@/hooks/useTournament";
+import type { CheckScope, ClueRef } from "@/lib/game";
+import { canEditCell, canRedo, canUndo, gameReducer, gameTime, initialGameState, isEntrySolved, MAX_CELL_LENGTH, teamScores, turnTimeLeft } from "@/lib/game";
+import type { ClueOrder, ParsedPuz } from "@/lib/puz";
+import { CLUE_ORDERS, describeChecksumMismatches, writePuz } from "@/lib/puz";
+import { isPuzzleFileName, PUZZLE_ACCEPT, parsePuzzleFile, parsePuzzleText } from "@/lib/formats";
+import type { SavedGame } from "@/lib/saves";
+import { deleteSave, listSaves, puzzleId, writeSave } from "@/lib/saves";
+import { downloadFile, fileNameFor } from "@/lib/download";
+import { gameLog, replayUrl } from "@/lib/events";
+import { recordRound, roundPuzzle, setRoster } from "@/lib/tournament";
+import { displayUrl, type DisplayMessage, formatClock, openDisplayChannel, turnStatusText } from "@/lib/display";
+import type { ScoreLine } from "@/lib/scoring";
+import { SCORE_LINES, scoreBreakdown } from "@/lib/scoring";
 
 type Props = {
   className?: string;
   onCanStartChange?: (canStart: boolean) => void;
   onPuzzleChange?: (hasPuzzle: boolean) => void;
+  onCheckScopeChange?: (scope: CheckScope) => void;
 };
 
-type Team = {
-  id: number;
-  name: string;
-  color: string; // hex
+const CLUE_ORDER_LABELS: Record<ClueOrder, string> = {
+  "interleaved-ad": "By number, Across first",
+  "interleaved-da": "By number, Down first",
+  "across-down": "All Across, then Down",
+  "down-across": "All Down, then Across",
 };
 
+// Below this the host is nudged to double-check the detected order
+const LOW_ORDER_CONFIDENCE = 0.8;
+
+// On a shared screen teams buzz with the number keys, in roster order
+const BUZZ_KEYS = "123456789";
+
+const SCORE_LINE_LABELS: Record<ScoreLine, string> = {
+  letters: "Letters",
+  words: "Words",
+  soloWords: "Solo words",
+  crossings: "Crossings",
+  theme: "Theme entries",
+  speed: "Speed",
+  steals: "Steals",
+  wrongGuesses: "Wrong letters",
+  hints: "Hints",
+  adjustments: "Host adjustments",
+};
+
+
 export type CrosswordHandle = {
   checkPuzzle: () => void;
   start: () => void;
@@ -24,27 +63,42 @@ export type CrosswordHandle = {
 
 const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: Props, ref) {
   const debug = typeof window !== "undefined" && new URLSearchParams(window.location.search).has("debug");
-  const [puz, setPuz] = useState<ParsedPuz | null>(null);
-  const [cells, setCells] = useState<string[]>([]); // user-entered letters per cell, length width*height
+  const [localGame, localDispatch] = useReducer(gameReducer, undefined, initialGameState);
+  // In a networked room the server's state replaces the local one and every
+  // action is sent to it instead of the local reducer.
+  const room = useRoom();
+  const inRoom = room.game != null;
+  const game = room.game ?? localGame;
+  const dispatch = inRoom ? room.dispatch : localDispatch;
+  const isHost = !inRoom || !!room.me?.isHost;
+  const myTeamId = inRoom ? (room.me?.teamId ?? null) : null;
+  const myTurn = !inRoom || (myTeamId != null && myTeamId === game.currentTeamId);
+  const canEdit = (i: number) => myTurn && canEditCell(game, i);
+  const { puz, cells, status, owners, teams, revealedAcross, revealedDown, started, finished, claimed, settings } = game;
   const inputRefs = useRef<HTMLInputElement[]>([]);
   const [mode, setMode] = useState<"across" | "down">("across");
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [rebusIndex, setRebusIndex] = useState<number | null>(null); // cell taking a multi-letter entry
   const [dragActive, setDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
-  const [status, setStatus] = useState<Array<"unchecked" | "correct" | "incorrect">>([]);
-  const [owners, setOwners] = useState<Array<number | null>>([]); // which team entered the cell
-
-  const [teams, setTeams] = useState<Team[]>([]);
-  const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
+  const selectedTeamId = game.currentTeamId;
   const [newTeamName, setNewTeamName] = useState("");
   const [newTeamColor, setNewTeamColor] = useState("#2d7ff9");
-  const [nextTeamId, setNextTeamId] = useState(1);
-  const [showTeamInputs, setShowTeamInputs] = useState(true);
+  // In a room only the host adds teams
+  const showTeamInputs = !started && isHost;
   const [editingTeamId, setEditingTeamId] = useState<number | null>(null);
   const [cellSize, setCellSize] = useState<number>(40);
   const gridAreaRef = useRef<HTMLDivElement | null>(null);
-  const [revealedAcross, setRevealedAcross] = useState<boolean[]>([]);
-  const [revealedDown, setRevealedDown] = useState<boolean[]>([]);
+  const [gameId, setGameId] = useState<string | null>(null); // puzzle hash, keys the local save
+  const [saves, setSaves] = useState<SavedGame[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadWarning, setLoadWarning] = useState<string | null>(null);
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [pasteText, setPasteText] = useState("");
+  const [now, setNow] = useState(() => Date.now()); // drives the clock display
+  const [exportOwners, setExportOwners] = useState(true);
+  const [summaryClosed, setSummaryClosed] = useState(false);
+  const [tournament, setTournament] = useTournament();
 
   const setCaretToEnd = (el: HTMLInputElement | null) => {
     if (!el) return;
@@ -108,82 +162,140 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
     [puz],
   );
 
+  // Shared by uploads and pasted text; `source` names the input in messages
+  const loadPuzzle = useCallback(async (source: string, buf: ArrayBuffer, parse: () => Promise<ParsedPuz>) => {
+    let parsed: ParsedPuz;
+    try {
+      parsed = await parse();
+    } catch (err) {
+      setLoadError(`Couldn't read ${source}: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    setLoadError(null);
+    setLoadWarning(
+      parsed.checksums.ok
+        ? null
+        : `${source} failed its checksums (${describeChecksumMismatches(parsed.checksums.mismatches)}). The file may be corrupt or hand-edited, so the grid or clues could be wrong.`,
+    );
+    const id = await puzzleId(buf);
+    dispatch({ type: "load", puz: parsed });
+    setGameId(id);
+    inputRefs.current = [];
+    props.onPuzzleChange?.(true);
+  }, [props, dispatch]);
+
   const onFile = useCallback(async (f: File) => {
     const buf = await f.arrayBuffer();
-    const params = typeof window !== "undefined" ? new URLSearchParams(window.location.search) : null;
-    const orderParam = params?.get("clueOrder") as any;
-    const parsed = parsePuz(buf, { clueOrder: orderParam });
-    if (debug) {
-      try {
-        // eslint-disable-next-line no-console
-        const sha = await (async () => {
-          try {
-            const d = await crypto.subtle.digest("SHA-256", buf);
-            const arr = Array.from(new Uint8Array(d));
-            return arr.map((b) => b.toString(16).padStart(2, "0")).join("");
-          } catch {
-            return "(hash unavailable)";
-          }
-        })();
-        // Basic meta
-        // eslint-disable-next-line no-console
-        console.debug("[PUZ] meta", {
-          width: parsed.width,
-          height: parsed.height,
-          clues: parsed.cluesRaw.length,
-          acrossCount: parsed.across.length,
-          downCount: parsed.down.length,
-          sha256: sha,
-        });
-        // Across/Down numbering and first few clues
-        // eslint-disable-next-line no-console
-        console.debug(
-          "[PUZ] across numbers",
-          parsed.across.slice(0, 20).map((e) => e.number),
-        );
-        // eslint-disable-next-line no-console
-        console.debug(
-          "[PUZ] down numbers",
-          parsed.down.slice(0, 20).map((e) => e.number),
-        );
-        // eslint-disable-next-line no-console
-        console.debug(
-          "[PUZ] first across clues",
-          parsed.across.slice(0, 10).map((e) => `${e.number}: ${e.clue}`),
-        );
-        // eslint-disable-next-line no-console
-        console.debug(
-          "[PUZ] first down clues",
-          parsed.down.slice(0, 10).map((e) => `${e.number}: ${e.clue}`),
-        );
-        const a6 = parsed.across.find((e) => e.number === 6);
-        const d1 = parsed.down.find((e) => e.number === 1);
-        // eslint-disable-next-line no-console
-        console.debug("[PUZ] A6:", a6?.clue, " D1:", d1?.clue);
-        // Raw chunks for comparison
-        const rawAcross = parsed.cluesRaw.slice(0, parsed.across.length).slice(0, 10);
-        const rawDown = parsed.cluesRaw
-          .slice(parsed.across.length, parsed.across.length + parsed.down.length)
-          .slice(0, 10);
-        // eslint-disable-next-line no-console
-        console.debug("[PUZ] raw across first 10:", rawAcross);
-        // eslint-disable-next-line no-console
-        console.debug("[PUZ] raw down first 10:", rawDown);
-      } catch (err) {
-        console.error("[PUZ] debug error:", err);
-      }
-    }
-    setPuz(parsed);
-    // Initialize user cells: empty for non-blocks, '' for block (kept unused)
-    const initial = parsed.grid.map((cell) => (cell.isBlock ? "" : ""));
-    setCells(initial);
-    setStatus(parsed.grid.map((cell) => (cell.isBlock ? "unchecked" : "unchecked")));
-    setOwners(parsed.grid.map(() => null));
-    setRevealedAcross(new Array(parsed.across.length).fill(false));
-    setRevealedDown(new Array(parsed.down.length).fill(false));
+    await loadPuzzle(f.name, buf, () => parsePuzzleFile(f.name, buf));
+  }, [loadPuzzle]);
+
+  const onPaste = async () => {
+    const buf = new TextEncoder().encode(pasteText).buffer;
+    await loadPuzzle("the pasted text", buf, async () => parsePuzzleText(pasteText));
+  };
+
+  // Other .puz readers ignore the team extensions, so the file stays portable
+  const exportPuz = () => {
+    if (!puz) return;
+    const bytes = writePuz(puz, {
+      fill: cells,
+      ...(exportOwners ? { owners, teams } : {}),
+    });
+    downloadFile(fileNameFor(puz.title, ".puz"), bytes as BlobPart, "application/x-crossword");
+  };
+
+  const exportLog = () => {
+    const log = gameLog(game);
+    if (!log) return;
+    downloadFile(fileNameFor(`${log.puz.title} log`, ".json"), JSON.stringify(log), "application/json");
+  };
+
+  // Loads a tournament round; the roster comes with it if this game has none
+  const playRound = (index: number) => {
+    if (!tournament) return;
+    setTournament({ ...tournament, current: index });
+    dispatch({ type: "load", puz: roundPuzzle(tournament, index) });
+    setGameId(tournament.rounds[index].id);
+    setLoadError(null);
+    setLoadWarning(null);
     inputRefs.current = [];
     props.onPuzzleChange?.(true);
-  }, [props]);
+  };
+
+  // The roster is saved once a round starts, so it outlasts a reload
+  useEffect(() => {
+    const round = tournament?.current != null ? tournament.rounds[tournament.current] : null;
+    if (!tournament || !round || !started || round.id !== gameId) return;
+    const next = setRoster(tournament, teams);
+    if (next !== tournament) setTournament(next);
+  }, [tournament, setTournament, started, gameId, teams]);
+
+  // A finished round's scores go into the standings, and follow any change
+  // the host makes afterward
+  useEffect(() => {
+    const round = tournament?.current != null ? tournament.rounds[tournament.current] : null;
+    if (!tournament || !round || !finished || round.id !== gameId) return;
+    const scores = teamScores(game);
+    if (JSON.stringify(round.scores) === JSON.stringify(Object.fromEntries(scores))) return;
+    setTournament(recordRound(tournament, game, scores));
+  }, [tournament, setTournament, finished, gameId, game]);
+
+  const resumeGame = (save: SavedGame) => {
+    dispatch({ type: "restore", state: save.state });
+    setGameId(save.id);
+    inputRefs.current = [];
+    props.onPuzzleChange?.(true);
+  };
+
+  // localStorage is only readable after hydration
+  useEffect(() => {
+    setSaves(listSaves());
+  }, []);
+
+  // Autosave the local game; a networked room's state belongs to its server
+  useEffect(() => {
+    if (inRoom || !gameId || !localGame.puz) return;
+    const t = setTimeout(() => writeSave(gameId, localGame), 300);
+    return () => clearTimeout(t);
+  }, [inRoom, gameId, localGame]);
+
+  // Tick the clocks while the game runs. A room's server passes the turn when
+  // the shot clock runs out; locally the game is asked to.
+  const clockRunning = started && !finished && !game.clock.paused;
+  useEffect(() => {
+    if (!clockRunning) return;
+    const t = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(t);
+  }, [clockRunning]);
+  const turnLeft = turnTimeLeft(game, now);
+  useEffect(() => {
+    if (!inRoom && turnLeft === 0) localDispatch({ type: "expire" });
+  }, [inRoom, turnLeft]);
+
+  // Closing one game's summary doesn't hide the next game's
+  useEffect(() => {
+    if (!finished) setSummaryClosed(false);
+  }, [finished]);
+
+  // Mirror the game to any /display tab open on this machine
+  const displayRef = useRef<BroadcastChannel | null>(null);
+  const gameRef = useRef(game);
+  gameRef.current = game;
+  useEffect(() => {
+    const channel = openDisplayChannel();
+    if (!channel) return;
+    displayRef.current = channel;
+    channel.onmessage = (e: MessageEvent<DisplayMessage>) => {
+      if (e.data.type === "hello") channel.postMessage({ type: "state", state: gameRef.current } satisfies DisplayMessage);
+    };
+    return () => {
+      displayRef.current = null;
+      channel.close();
+    };
+  }, []);
+  useEffect(() => {
+    displayRef.current?.postMessage({ type: "state", state: game } satisfies DisplayMessage);
+  }, [game]);
 
   // Resize cells to fill most of the viewport while respecting clues column
   const computeCellSize = useCallback(() => {
@@ -220,44 +332,29 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
     return () => clearTimeout(t);
   }, [teams.length, showTeamInputs, computeCellSize]);
 
-  // Notify parent whether Start is allowed (>= 2 teams)
+  // Notify parent whether Start is allowed (>= 2 teams, not yet started)
+  useEffect(() => {
+    props.onCanStartChange?.(teams.length >= 2 && !started && isHost);
+  }, [teams.length, started, isHost]);
+
+  const { onCheckScopeChange } = props;
   useEffect(() => {
-    props.onCanStartChange?.(teams.length >= 2);
-  }, [teams.length]);
+    // A buzzed-in team submits just the open clue
+    onCheckScopeChange?.(settings.mode === "buzzer" ? "entry" : settings.checkScope);
+  }, [onCheckScopeChange, settings.checkScope, settings.mode]);
 
   const checkPuzzle = useCallback(() => {
-    if (!puz) return;
-    const w = puz.width;
-    const size = w * puz.height;
-    setStatus((prev) => {
-      const next: Array<"unchecked" | "correct" | "incorrect"> = new Array(size);
-      for (let i = 0; i < size; i++) {
-        const cell = puz.grid[i];
-        if (cell.isBlock) {
-          next[i] = "unchecked";
-          continue;
-        }
-        const val = (cells[i] || "").toUpperCase();
-        if (!val) {
-          next[i] = "unchecked";
-        } else if (val === cell.solution) {
-          next[i] = "correct";
-        } else {
-          next[i] = "incorrect";
-        }
-      }
-      return next;
-    });
-  }, [puz, cells]);
+    dispatch({ type: "check" });
+  }, [dispatch]);
 
   const start = useCallback(() => {
     if (teams.length >= 2) {
-      setShowTeamInputs(false);
+      dispatch({ type: "start" });
     } else {
       // eslint-disable-next-line no-console
       console.warn("Cannot start: need at least 2 teams");
     }
-  }, [teams.length]);
+  }, [teams.length, dispatch]);
 
   useImperativeHandle(ref, () => ({
     checkPuzzle,
@@ -275,38 +372,9 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
     if (el) inputRefs.current[idx] = el;
   };
 
-  const onCellChange = (idx: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
-    // Disallow edits on correct cells
-    if (status[idx] === "correct") return;
-    const v = (e.target.value || "").toUpperCase().replace(/[^A-Z]/g, "");
-    setCells((prev) => {
-      const next = prev.slice();
-      next[idx] = v.slice(0, 1);
-      return next;
-    });
-    setOwners((prev) => {
-      const copy = prev.slice();
-      copy[idx] = v ? selectedTeamId : null;
-      return copy;
-    });
-    // If this cell was marked incorrect, require deletion first to clear
-    setStatus((prev) => {
-      if (!prev.length) return prev;
-      if (prev[idx] === "incorrect") {
-        const copy = prev.slice();
-        const newVal = v.slice(0, 1);
-        if (newVal === "") {
-          copy[idx] = "unchecked";
-        } else {
-          // keep marked incorrect until user deletes
-          copy[idx] = "incorrect";
-        }
-        return copy;
-      }
-      return prev;
-    });
-    // Auto-advance based on mode
-    if (v.length >= 1 && puz) {
+  // Move to the next open square in the current direction
+  const advanceFrom = (idx: number) => {
+    if (puz) {
       const w = puz.width;
       const h = puz.height;
       const r = Math.floor(idx / w);
@@ -331,6 +399,21 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
     }
   };
 
+  const onCellChange = (idx: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    // The engine rejects edits out of turn and on correct cells
+    if (!canEdit(idx)) return;
+    const v = (e.target.value || "").toUpperCase().replace(/[^A-Z]/g, "");
+    dispatch({ type: "input", index: idx, value: v });
+    // Rebus entry stays put until committed; otherwise auto-advance
+    if (rebusIndex !== idx && v.length >= 1) advanceFrom(idx);
+  };
+
+  const startRebus = (idx: number) => {
+    if (!canEdit(idx)) return;
+    setRebusIndex(idx);
+    focusCell(idx);
+  };
+
   const onCellKeyDown = (idx: number) => (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (!puz) return;
     const w = puz.width;
@@ -338,8 +421,18 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
     const r = Math.floor(idx / w);
     const c = idx % w;
 
-    // Prevent editing correct (locked) cells
-    if (status[idx] === "correct") {
+    // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes (the board's
+    // history, not the input's own)
+    if ((e.ctrlKey || e.metaKey) && (e.key.toLowerCase() === "z" || e.key.toLowerCase() === "y")) {
+      e.preventDefault();
+      if (rebusIndex === idx) setRebusIndex(null);
+      const redo = e.key.toLowerCase() === "y" || e.shiftKey;
+      if (myTurn) dispatch({ type: redo ? "redo" : "undo" });
+      return;
+    }
+
+    // Prevent editing correct (locked) cells and typing out of turn
+    if (!canEdit(idx)) {
       if (
         e.key === "Backspace" ||
         e.key === "Delete" ||
@@ -350,6 +443,22 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
       }
     }
 
+    // Rebus entry: Enter, Tab, Escape or Insert commits; everything else edits
+    // the text normally
+    if (rebusIndex === idx) {
+      if (["Enter", "Tab", "Escape", "Insert"].includes(e.key)) {
+        e.preventDefault();
+        setRebusIndex(null);
+        if (cells[idx]) advanceFrom(idx);
+      }
+      return;
+    }
+    if (e.key === "Escape" || e.key === "Insert") {
+      e.preventDefault();
+      startRebus(idx);
+      return;
+    }
+
     const move = (nr: number, nc: number) => {
       if (nr < 0 || nr >= h || nc < 0 || nc >= w) return;
       const nidx = nr * w + nc;
@@ -428,21 +537,7 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
               if (!puz.grid[nidx].isBlock) {
                 focusCell(nidx);
                 setActiveIndex(nidx);
-                setCells((prev) => {
-                  const next = prev.slice();
-                  next[nidx] = "";
-                  return next;
-                });
-                setStatus((prev) => {
-                  const copy = prev.slice();
-                  copy[nidx] = "unchecked";
-                  return copy;
-                });
-                setOwners((prev) => {
-                  const copy = prev.slice();
-                  copy[nidx] = null;
-                  return copy;
-                });
+                dispatch({ type: "clear", index: nidx });
                 break;
               }
             }
@@ -452,21 +547,7 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
               if (!puz.grid[nidx].isBlock) {
                 focusCell(nidx);
                 setActiveIndex(nidx);
-                setCells((prev) => {
-                  const next = prev.slice();
-                  next[nidx] = "";
-                  return next;
-                });
-                setStatus((prev) => {
-                  const copy = prev.slice();
-                  copy[nidx] = "unchecked";
-                  return copy;
-                });
-                setOwners((prev) => {
-                  const copy = prev.slice();
-                  copy[nidx] = null;
-                  return copy;
-                });
+                dispatch({ type: "clear", index: nidx });
                 break;
               }
             }
@@ -475,39 +556,74 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
         break;
       case "Delete":
         e.preventDefault();
-        if (status[idx] !== "correct") {
-          setCells((prev) => {
-            const next = prev.slice();
-            next[idx] = "";
-            return next;
-          });
-          setStatus((prev) => {
-            const copy = prev.slice();
-            copy[idx] = "unchecked";
-            return copy;
-          });
-          setOwners((prev) => {
-            const copy = prev.slice();
-            copy[idx] = null;
-            return copy;
-          });
-        }
+        dispatch({ type: "clear", index: idx });
         break;
       default:
         break;
     }
   };
-  const scores = useMemo(() => {
-    const map = new Map<number, number>();
-    teams.forEach((t) => map.set(t.id, 0));
-    status.forEach((s, i) => {
-      if (s === "correct") {
-        const owner = owners[i];
-        if (owner != null) map.set(owner, (map.get(owner) || 0) + 1);
+  // Clicking a clue claims it on your turn; in buzzer mode the host opens it
+  // for everyone instead
+  const pickClue = (clue: ClueRef) => {
+    if (!started) return;
+    if (settings.mode === "buzzer") {
+      if (isHost) dispatch({ type: "openClue", clue });
+    } else if (myTurn) {
+      dispatch({ type: "claim", clue });
+    }
+  };
+
+  const buzzing = settings.mode === "buzzer" && started && !finished;
+  const canBuzz = (teamId: number) =>
+    buzzing &&
+    !!claimed &&
+    !game.clock.paused &&
+    teamId !== game.currentTeamId &&
+    !game.buzzQueue.includes(teamId) &&
+    !game.lockedOut.includes(teamId);
+  useEffect(() => {
+    if (inRoom || !buzzing) return;
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return;
+      if (target instanceof HTMLInputElement && !target.readOnly) return;
+      if (e.ctrlKey || e.metaKey || e.altKey || e.key.length !== 1) return;
+      const team = teams[BUZZ_KEYS.indexOf(e.key)];
+      if (!team) return;
+      e.preventDefault();
+      localDispatch({ type: "buzz", teamId: team.id });
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [inRoom, buzzing, teams]);
+
+  const teamName = (id: number | null) => teams.find((t) => t.id === id)?.name ?? "?";
+  const buzzOrder = claimed
+    ? game.buzzes.filter((b) => b.clue.dir === claimed.dir && b.clue.index === claimed.index).map((b) => b.teamId)
+    : [];
+
+  const scores = useMemo(() => teamScores(game), [game]);
+  const breakdown = useMemo(() => scoreBreakdown(game, game.settings.scoring), [game]);
+  // Only lines some team has points on
+  const breakdownLines = SCORE_LINES.filter((line) => [...breakdown.values()].some((b) => b[line] !== 0));
+
+  // Clicking a team chip: in a room it joins that team (or edits it if it is
+  // already yours); on a shared screen it picks who goes first, then edits.
+  const activateTeam = (id: number, selected: boolean) => {
+    if (inRoom) {
+      if (id === myTeamId) {
+        setEditingTeamId(id);
+      } else {
+        room.pickTeam(id);
+        setEditingTeamId(null);
       }
-    });
-    return map; // teamId -> score
-  }, [teams, status, owners]);
+    } else if (selected || started) {
+      setEditingTeamId(id);
+    } else {
+      dispatch({ type: "selectTeam", id });
+      setEditingTeamId(null);
+    }
+  };
 
   const getTeamColor = (teamId: number | null) => {
     if (teamId == null) return "var(--foreground)";
@@ -548,9 +664,20 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
     [puz, activeIndex, mode],
   );
 
-  const isEntrySolved = useCallback(
-    (cellsArr: { index: number }[]) =>
-      cellsArr.length > 0 && cellsArr.every((c) => status[c.index] === "correct"),
+  // Hints work on the claimed answer in entry scope, otherwise on the answer
+  // through the active square in the current direction
+  const hintClue = useMemo((): ClueRef | null => {
+    if (!puz) return null;
+    if (settings.checkScope === "entry") return claimed;
+    if (activeIndex == null) return null;
+    const index = puz[mode].findIndex((e) => e.cells.some((c) => c.index === activeIndex));
+    return index < 0 ? null : { dir: mode, index };
+  }, [puz, settings.checkScope, claimed, activeIndex, mode]);
+  const hintEntry = puz && hintClue ? puz[hintClue.dir][hintClue.index] : undefined;
+  const canHint = started && !finished && myTurn && !game.clock.paused && !!hintEntry && !isEntrySolved(hintEntry.cells, status);
+
+  const isSolved = useCallback(
+    (cellsArr: { index: number }[]) => isEntrySolved(cellsArr, status),
     [status],
   );
 
@@ -558,6 +685,9 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
     <div className={`${styles.root} ${props.className || ""}`.trim()}>
       {!puz ? (
         <div className={styles.uploader}>
+          {!isHost ? (
+            <div className={styles.dropZone}>Waiting for the host to load a puzzle…</div>
+          ) : (
           <div
             className={`${styles.dropZone} ${dragActive ? styles.dropActive : ""}`}
             onDragOver={(e) => {
@@ -572,7 +702,7 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
               e.preventDefault();
               setDragActive(false);
               const files = Array.from(e.dataTransfer?.files || []);
-              const file = files.find((f) => f.name.toLowerCase().endsWith(".puz")) || files[0];
+              const file = files.find((f) => isPuzzleFileName(f.name)) || files[0];
               if (file) onFile(file);
             }}
             onClick={() => fileInputRef.current?.click()}
@@ -584,21 +714,100 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                 fileInputRef.current?.click();
               }
             }}
-            aria-label="Click or drag a .puz file to upload"
+            aria-label="Click or drag a .puz, .ipuz, .jpz, .txt or .xd file to upload"
           >
-            Click or drag a .puz file here
+            Click or drag a .puz, .ipuz, .jpz, .txt or .xd file here
           </div>
+          )}
           <input
             ref={fileInputRef}
             className={styles.hidden}
             type="file"
-            accept=".puz,application/octet-stream"
+            accept={PUZZLE_ACCEPT}
             suppressHydrationWarning
             onChange={handleFileChange}
           />
+          {isHost ? (
+            <div className={styles.pasteArea}>
+              {pasteOpen ? (
+                <>
+                  <textarea
+                    className={styles.pasteInput}
+                    value={pasteText}
+                    onChange={(e) => setPasteText(e.target.value)}
+                    placeholder="Paste <ACROSS PUZZLE> text, .xd or ipuz"
+                    aria-label="Puzzle text"
+                    spellCheck={false}
+                    rows={10}
+                  />
+                  <span className={styles.actions}>
+                    <button type="button" className={styles.btn} onClick={onPaste} disabled={!pasteText.trim()}>
+                      Load puzzle
+                    </button>
+                    <button type="button" className={styles.btn} onClick={() => setPasteOpen(false)}>
+                      Cancel
+                    </button>
+                  </span>
+                </>
+              ) : (
+                <button type="button" className={styles.btn} onClick={() => setPasteOpen(true)}>
+                  Or paste puzzle text
+                </button>
+              )}
+            </div>
+          ) : null}
+          {loadError ? <div className={styles.loadError}>{loadError}</div> : null}
+          {isHost && saves.length > 0 ? (
+            <div className={styles.savedGames}>
+              <div className={styles.clueSectionTitle}>Saved games</div>
+              <ul className={styles.clueList}>
+                {saves.map((save) => (
+                  <li key={save.id} className={styles.savedGame}>
+                    <span>
+                      <strong>{save.title}</strong>{" "}
+                      <span className={styles.clueHidden}>
+                        {save.state.teams.map((t) => t.name).join(" vs ") || "No teams"} ·{" "}
+                        {new Date(save.savedAt).toLocaleString()}
+                      </span>
+                    </span>
+                    <span className={styles.actions}>
+                      <button type="button" className={styles.btn} onClick={() => resumeGame(save)}>
+                        Resume game
+                      </button>
+                      <button
+                        type="button"
+                        className={styles.btn}
+                        onClick={() => {
+                          deleteSave(save.id);
+                          setSaves(listSaves());
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+          {isHost ? <TournamentPanel tournament={tournament} onChange={setTournament} game={game} onPlay={playRound} /> : null}
+          <div className={styles.roomArea}>
+            <RoomPanel room={room} />
+          </div>
         </div>
       ) : null}
 
+      {puz && loadWarning ? (
+        <div className={styles.loadWarning}>
+          <span>{loadWarning}</span>
+          <button type="button" className={styles.btn} onClick={() => setLoadWarning(null)}>
+            Dismiss
+          </button>
+        </div>
+      ) : null}
+
+      {puz && finished && !summaryClosed ? <Summary game={game} onClose={() => setSummaryClosed(true)} /> : null}
+
       {!puz ? null : (
         <div className={styles.container}>
           <div className={styles.gridWrapper} ref={gridAreaRef}>
@@ -609,23 +818,23 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                 ) : (
                   <div
                     key={i}
-                    className={`${styles.cell} ${status[i] === "incorrect" ? styles.incorrectCell : ""} ${status[i] === "correct" ? styles.correctCell : ""}`}
+                    className={`${styles.cell} ${status[i] === "incorrect" ? styles.incorrectCell : ""} ${status[i] === "correct" ? styles.correctCell : ""} ${rebusIndex === i ? styles.rebusActive : ""} ${cell.circled ? styles.circled : ""} ${cell.revealed ? styles.givenCell : ""} ${cell.markedIncorrect ? styles.markedCell : ""} ${game.revealedCells[i] ? styles.revealedCell : ""}`}
                   >
                     {numberMap.has(i) ? (
                       <span className={styles.cellNum}>{numberMap.get(i)}</span>
                     ) : null}
                     <input
                       ref={setRef(i)}
-                      className={`${styles.cellInput} ${isRowHighlighted(i) ? styles.inputRowHighlight : ""} ${isColHighlighted(i) ? styles.inputColHighlight : ""}`}
+                      className={`${styles.cellInput} ${isRowHighlighted(i) ? styles.inputRowHighlight : ""} ${isColHighlighted(i) ? styles.inputColHighlight : ""} ${rebusIndex === i || (cells[i]?.length ?? 0) > 1 ? styles.rebusInput : ""}`}
                       style={getCellTextStyle(i)}
                       inputMode="text"
                       pattern="[A-Za-z]"
                       autoCapitalize="characters"
                       autoComplete="off"
                       autoCorrect="off"
-                      maxLength={1}
+                      maxLength={rebusIndex === i ? MAX_CELL_LENGTH : 1}
                       value={cells[i] ?? ""}
-                      readOnly={status[i] === "correct"}
+                      readOnly={!canEdit(i)}
                       onFocus={(e) => {
                         setActiveIndex(i);
                         setCaretToEnd(e.currentTarget);
@@ -636,29 +845,158 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                       }}
                       onChange={onCellChange(i)}
                       onKeyDown={onCellKeyDown(i)}
+                      onBlur={() => {
+                        if (rebusIndex === i) setRebusIndex(null);
+                      }}
                     />
                   </div>
                 ),
               )}
             </div>
-            
+            <div className={styles.actions}>
+              {started && !finished ? (
+                <button
+                  type="button"
+                  className={styles.btn}
+                  disabled={activeIndex == null || !canEdit(activeIndex)}
+                  onClick={() => {
+                    if (activeIndex != null) startRebus(activeIndex);
+                  }}
+                  title="Enter several letters in one square (Esc)"
+                >
+                  Rebus
+                </button>
+              ) : null}
+              {started && !finished ? (
+                <>
+                  <button
+                    type="button"
+                    className={styles.btn}
+                    disabled={activeIndex == null || !canEdit(activeIndex)}
+                    onClick={() => {
+                      if (activeIndex != null) dispatch({ type: "revealLetter", index: activeIndex });
+                    }}
+                    title={`Fill in the active square (−${settings.hintCosts.letter} points)`}
+                  >
+                    Reveal letter
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.btn}
+                    disabled={!canHint}
+                    onClick={() => {
+                      if (hintClue) dispatch({ type: "revealWord", clue: hintClue });
+                    }}
+                    title={`Fill in the active answer (−${settings.hintCosts.word} points)`}
+                  >
+                    Reveal word
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.btn}
+                    disabled={!canHint || !hintEntry?.cells.every((c) => cells[c.index])}
+                    onClick={() => {
+                      if (hintClue) dispatch({ type: "checkWord", clue: hintClue });
+                    }}
+                    title={`Check the active answer without ending the turn (−${settings.hintCosts.check} points)`}
+                  >
+                    Check word
+                  </button>
+                </>
+              ) : null}
+              {started ? (
+                <>
+                  <button
+                    type="button"
+                    className={styles.btn}
+                    disabled={!myTurn || !canUndo(game)}
+                    onClick={() => dispatch({ type: "undo" })}
+                    title="Undo (Ctrl+Z)"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.btn}
+                    disabled={!myTurn || !canRedo(game)}
+                    onClick={() => dispatch({ type: "redo" })}
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    Redo
+                  </button>
+                </>
+              ) : null}
+              {isHost ? (
+                <a className={styles.btn} href={displayUrl(inRoom ? room.code : null)} target="_blank" rel="noreferrer">
+                  Open display
+                </a>
+              ) : null}
+              {/* A room's players don't get the answers, which a .puz needs */}
+              {!inRoom ? (
+                <button type="button" className={styles.btn} onClick={exportPuz} title="Download the puzzle with the current fill">
+                  Export .puz
+                </button>
+              ) : null}
+              {!inRoom && teams.length > 0 ? (
+                <label className={styles.exportOption}>
+                  <input type="checkbox" checked={exportOwners} onChange={(e) => setExportOwners(e.target.checked)} />
+                  <span>Include teams</span>
+                </label>
+              ) : null}
+              {finished && summaryClosed ? (
+                <button type="button" className={styles.btn} onClick={() => setSummaryClosed(false)}>
+                  Summary
+                </button>
+              ) : null}
+              {started ? (
+                <>
+                  <button type="button" className={styles.btn} onClick={exportLog} title="Download every move so far as JSON">
+                    Export log
+                  </button>
+                  <a className={styles.btn} href={replayUrl(inRoom ? room.code : null)} target="_blank" rel="noreferrer">
+                    Replay
+                  </a>
+                </>
+              ) : null}
+            </div>
           </div>
 
           <div className={styles.clues}>
+            {isHost && (puz.format ?? "puz") === "puz" ? (
+              <label className={`${styles.settingRow} ${styles.clueOrderBar}`}>
+                <span>
+                  Clue order
+                  {(puz.clueOrderConfidence ?? 1) < LOW_ORDER_CONFIDENCE ? (
+                    <span className={styles.clueHidden}> · detected, check the clues look right</span>
+                  ) : null}
+                </span>
+                <select
+                  value={puz.clueOrder}
+                  onChange={(e) => dispatch({ type: "setClueOrder", order: e.target.value as ClueOrder })}
+                >
+                  {CLUE_ORDERS.map((o) => (
+                    <option key={o} value={o}>
+                      {CLUE_ORDER_LABELS[o]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
             <div className={styles.cluesColumns}>
               <div className={styles.clueColumn}>
                 <div className={styles.clueSectionTitle}>Across</div>
                 <ul className={styles.clueList}>
                   {puz.across.map((a, i) => {
-                    const shown = revealedAcross[i];
+                    const shown = !settings.hideClues || revealedAcross[i];
                     const length = a.cells.length;
-                    const solved = isEntrySolved(a.cells);
+                    const solved = isSolved(a.cells);
+                    const isClaimed = claimed?.dir === "across" && claimed.index === i;
                     return (
                       <li
                         key={`A${a.number}`}
-                        className={`${styles.clueItem} ${styles.clueItemButton}`}
+                        className={`${styles.clueItem} ${styles.clueItemButton} ${isClaimed ? styles.clueClaimed : ""}`}
                         onClick={() => {
-                          if (!shown) setRevealedAcross((prev) => prev.map((v, idx) => (idx === i ? true : v)));
+                          pickClue({ dir: "across", index: i });
                           setMode("across");
                           goToClue("across", i);
                         }}
@@ -667,7 +1005,7 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                         onKeyDown={(e) => {
                           if (e.key === "Enter" || e.key === " ") {
                             e.preventDefault();
-                            if (!shown) setRevealedAcross((prev) => prev.map((v, idx) => (idx === i ? true : v)));
+                            pickClue({ dir: "across", index: i });
                             setMode("across");
                             goToClue("across", i);
                           }
@@ -687,15 +1025,16 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                 <div className={styles.clueSectionTitle}>Down</div>
                 <ul className={styles.clueList}>
                   {puz.down.map((d, i) => {
-                    const shown = revealedDown[i];
+                    const shown = !settings.hideClues || revealedDown[i];
                     const length = d.cells.length;
-                    const solved = isEntrySolved(d.cells);
+                    const solved = isSolved(d.cells);
+                    const isClaimed = claimed?.dir === "down" && claimed.index === i;
                     return (
                       <li
                         key={`D${d.number}`}
-                        className={`${styles.clueItem} ${styles.clueItemButton}`}
+                        className={`${styles.clueItem} ${styles.clueItemButton} ${isClaimed ? styles.clueClaimed : ""}`}
                         onClick={() => {
-                          if (!shown) setRevealedDown((prev) => prev.map((v, idx) => (idx === i ? true : v)));
+                          pickClue({ dir: "down", index: i });
                           setMode("down");
                           goToClue("down", i);
                         }}
@@ -704,7 +1043,7 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                         onKeyDown={(e) => {
                           if (e.key === "Enter" || e.key === " ") {
                             e.preventDefault();
-                            if (!shown) setRevealedDown((prev) => prev.map((v, idx) => (idx === i ? true : v)));
+                            pickClue({ dir: "down", index: i });
                             setMode("down");
                             goToClue("down", i);
                           }
@@ -724,34 +1063,73 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
           </div>
           <div className={styles.teamsPanel}>
               <div className={styles.clueSectionTitle}>Teams</div>
+              {inRoom ? (
+                <div className={styles.roomArea}>
+                  <RoomPanel room={room} />
+                </div>
+              ) : null}
+              {started ? (
+                <div className={styles.turnStatus}>
+                  {turnStatusText(game, isHost)}
+                  {turnLeft != null && !game.clock.paused ? (
+                    <span className={`${styles.shotClock} ${turnLeft <= 10_000 ? styles.shotClockLow : ""}`}>
+                      {formatClock(turnLeft)}
+                    </span>
+                  ) : null}
+                </div>
+              ) : null}
+              {buzzing ? (
+                <div className={styles.buzzPanel}>
+                  {teams
+                    .filter((t) => !inRoom || t.id === myTeamId)
+                    .map((t) => (
+                      <button
+                        key={t.id}
+                        type="button"
+                        className={styles.buzzBtn}
+                        style={{ borderColor: t.color }}
+                        disabled={!canBuzz(t.id)}
+                        onClick={() => dispatch({ type: "buzz", teamId: t.id })}
+                      >
+                        {inRoom ? "Buzz!" : `${t.name} (${BUZZ_KEYS[teams.indexOf(t)] ?? "–"})`}
+                      </button>
+                    ))}
+                  {buzzOrder.length > 0 ? (
+                    <div className={styles.buzzOrder}>Buzz order: {buzzOrder.map(teamName).join(", ")}</div>
+                  ) : null}
+                </div>
+              ) : null}
+              {started ? (
+                <div className={styles.clockRow}>
+                  <span>Time {formatClock(gameTime(game.clock, now))}</span>
+                  {isHost && !finished ? (
+                    <button
+                      type="button"
+                      className={styles.btn}
+                      onClick={() => dispatch({ type: game.clock.paused ? "resume" : "pause" })}
+                    >
+                      {game.clock.paused ? "Resume" : "Pause"}
+                    </button>
+                  ) : null}
+                </div>
+              ) : null}
               <div className={styles.teamsRow}>
                 {teams.map((t) => {
                   const selected = t.id === selectedTeamId;
                   const score = scores.get(t.id) || 0;
+                  const bonus = game.bonuses[t.id] ?? 0;
                   return (
                     <div
                       key={t.id}
-                      className={`${styles.teamItem} ${selected ? styles.teamSelected : ""} ${editingTeamId === t.id ? styles.teamItemEditing : ""}`}
-                      onClick={() => {
-                        if (selected) {
-                          setEditingTeamId(t.id);
-                        } else {
-                          setSelectedTeamId(t.id);
-                          setEditingTeamId(null);
-                        }
-                      }}
+                      className={`${styles.teamItem} ${selected ? styles.teamSelected : ""} ${editingTeamId === t.id ? styles.teamItemEditing : ""} ${buzzing && game.lockedOut.includes(t.id) ? styles.teamLockedOut : ""}`}
+                      onClick={() => activateTeam(t.id, selected)}
                       role="button"
                       tabIndex={0}
                       onKeyDown={(e) => {
                         if (editingTeamId === t.id) return;
                         if (e.key === "Enter" || e.key === " ") {
                           e.preventDefault();
-                          if (selected) {
-                            setEditingTeamId(t.id);
-                          } else {
-                            setSelectedTeamId(t.id);
-                            setEditingTeamId(null);
-                          }
+                          activateTeam(t.id, selected);
                         }
                       }}
                       onBlur={(e) => {
@@ -767,7 +1145,7 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                             type="color"
                             value={t.color}
                             onChange={(e) =>
-                              setTeams((prev) => prev.map((tm) => (tm.id === t.id ? { ...tm, color: e.target.value } : tm)))
+                              dispatch({ type: "updateTeam", id: t.id, changes: { color: e.target.value } })
                             }
                             aria-label={`Color for ${t.name}`}
                           />
@@ -776,7 +1154,7 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                             className={styles.addTeamInput}
                             value={t.name}
                             onChange={(e) =>
-                              setTeams((prev) => prev.map((tm) => (tm.id === t.id ? { ...tm, name: e.target.value } : tm)))
+                              dispatch({ type: "updateTeam", id: t.id, changes: { name: e.target.value } })
                             }
                             aria-label={`Name for ${t.name}`}
                           />
@@ -791,8 +1169,16 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                       ) : (
                         <>
                           <span className={styles.dot} style={{ background: t.color }} />
-                          <span className={`${styles.teamName} ${selected ? styles.teamNameSelected : ""}`}>{t.name}</span>
+                          <span className={`${styles.teamName} ${selected ? styles.teamNameSelected : ""}`}>
+                            {t.name}
+                            {t.id === myTeamId ? " (you)" : ""}
+                          </span>
                           <span className={styles.teamScore}>{score}</span>
+                          {bonus ? (
+                            <span className={styles.teamBonus} title={`Includes ${bonus} speed bonus points`}>
+                              ⚡+{bonus}
+                            </span>
+                          ) : null}
                         </>
                       )}
                     </div>
@@ -803,11 +1189,7 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                     className={styles.addTeamForm}
                     onSubmit={(e) => {
                       e.preventDefault();
-                      const name = newTeamName.trim() || `Team ${nextTeamId}`;
-                      const team: Team = { id: nextTeamId, name, color: newTeamColor };
-                      setTeams((prev) => [...prev, team]);
-                      setSelectedTeamId(team.id);
-                      setNextTeamId((n) => n + 1);
+                      dispatch({ type: "addTeam", name: newTeamName, color: newTeamColor });
                       setNewTeamName("");
                     }}
                   >
@@ -828,14 +1210,42 @@ const Crossword = forwardRef<CrosswordHandle, Props>(function Crossword(props: P
                   </form>
                 ) : null}
               </div>
+              {started && breakdownLines.length > 0 ? (
+                <table className={styles.breakdown}>
+                  <thead>
+                    <tr>
+                      <th />
+                      {teams.map((t) => (
+                        <th key={t.id} title={t.name}>
+                          <span className={styles.dot} style={{ background: t.color }} />
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {breakdownLines.map((line) => (
+                      <tr key={line}>
+                        <th scope="row">{SCORE_LINE_LABELS[line]}</th>
+                        {teams.map((t) => (
+                          <td key={t.id}>{breakdown.get(t.id)?.[line] ?? 0}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : null}
+              {isHost ? <HostPanel game={game} dispatch={dispatch} activeIndex={activeIndex} /> : null}
+              {isHost && tournament ? (
+                <TournamentPanel tournament={tournament} onChange={setTournament} game={game} onPlay={playRound} />
+              ) : null}
               {debug && (
                 <div className={styles.debugPanel}>
                   <div><strong>Debug</strong></div>
                   <div>Grid: {puz.width}x{puz.height}</div>
                   <div>Across count: {puz.across.length} | Down count: {puz.down.length}</div>
-                  <div>Order: {puz.clueOrder}</div>
-                  <div>A6: {puz.across.find((e) => e.number === 6)?.clue || "(none)"}</div>
-                  <div>D1: {puz.down.find((e) => e.number === 1)?.clue || "(none)"}</div>
+                  <div>
+                    Order: {puz.clueOrder} ({Math.round((puz.clueOrderConfidence ?? 1) * 100)}%)
+                  </div>
                   <div style={{ marginTop: 6 }}>
                     First across: {puz.across.slice(0, 5).map((e) => `${e.number}`).join(", ")}
                   </div>
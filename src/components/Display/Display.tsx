@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useWatchedGame } from "@/hooks/useWatchedGame";
+import { clueName, formatClock, turnStatusText } from "@/lib/display";
+import { claimedEntry, gameTime, teamScores, turnTimeLeft } from "@/lib/game";
+import styles from "./Display.module.css";
+
+// Read-only big-screen view of a game: the grid, the clue being played, whose
+// turn it is, the scores and the clocks. See useWatchedGame for where the game
+// comes from.
+
+export default function Display() {
+  const { game, roomCode, error } = useWatchedGame();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(t);
+  }, []);
+
+  const puz = game?.puz ?? null;
+  const scores = useMemo(() => (game ? teamScores(game) : null), [game]);
+  const numbers = useMemo(() => {
+    const map = new Map<number, number>();
+    if (!puz) return map;
+    for (const e of [...puz.across, ...puz.down]) {
+      map.set(e.cells[0].index, e.number);
+    }
+    return map;
+  }, [puz]);
+
+  if (!game || !puz) {
+    return (
+      <div className={styles.waiting}>
+        {roomCode
+          ? error
+            ? error
+            : `Waiting for room ${roomCode.toUpperCase()}…`
+          : "Waiting for a game. Load a puzzle in another tab of this browser."}
+      </div>
+    );
+  }
+
+  const active = claimedEntry(game);
+  const activeCells = new Set(active?.cells.map((c) => c.index));
+  const turnLeft = turnTimeLeft(game, now);
+  const colorOf = (id: number | null) =>
+    game.teams.find((t) => t.id === id)?.color;
+
+  return (
+    <div className={styles.display}>
+      <div
+        className={styles.grid}
+        style={
+          {
+            gridTemplateColumns: `repeat(${puz.width}, var(--cell))`,
+            "--cell": `min(calc(86vh / ${puz.height}), calc(62vw / ${puz.width}))`,
+          } as React.CSSProperties
+        }
+      >
+        {puz.grid.map((cell, i) =>
+          cell.isBlock ? (
+            <div key={cell.index} className={styles.block} />
+          ) : (
+            <div
+              key={cell.index}
+              className={`${styles.cell} ${activeCells.has(i) ? styles.active : ""} ${game.status[i] === "correct" ? styles.correct : ""} ${game.status[i] === "incorrect" ? styles.incorrect : ""} ${game.revealedCells[i] ? styles.revealed : ""} ${cell.circled ? styles.circled : ""}`}
+            >
+              {numbers.has(i) ? (
+                <span className={styles.number}>{numbers.get(i)}</span>
+              ) : null}
+              <span
+                className={`${styles.letter} ${(game.cells[i]?.length ?? 0) > 1 ? styles.rebus : ""}`}
+                style={{ color: colorOf(game.owners[i] ?? null) }}
+              >
+                {game.cells[i]}
+              </span>
+            </div>
+          ),
+        )}
+      </div>
+
+      <div className={styles.side}>
+        <div className={styles.status}>
+          {game.started ? turnStatusText(game, false) : "Getting ready…"}
+        </div>
+        {game.started ? (
+          <div className={styles.clocks}>
+            <span>{formatClock(gameTime(game.clock, now))}</span>
+            {turnLeft != null && !game.clock.paused ? (
+              <span
+                className={`${styles.countdown} ${turnLeft <= 10_000 ? styles.countdownLow : ""}`}
+              >
+                {formatClock(turnLeft)}
+              </span>
+            ) : null}
+          </div>
+        ) : null}
+        {active && game.claimed ? (
+          <div className={styles.clue}>
+            <div className={styles.clueLabel}>
+              {clueName(puz, game.claimed)}
+            </div>
+            <div>{active.clue}</div>
+          </div>
+        ) : null}
+        <ol className={styles.scores}>
+          {game.teams.map((t) => {
+            const playing = game.started && t.id === game.currentTeamId;
+            return (
+              <li
+                key={t.id}
+                className={`${styles.team} ${playing ? styles.teamActive : ""}`}
+                style={playing ? { borderColor: t.color } : undefined}
+              >
+                <span className={styles.dot} style={{ background: t.color }} />
+                <span className={styles.teamName}>{t.name}</span>
+                <span className={styles.score}>{scores?.get(t.id) ?? 0}</span>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+}
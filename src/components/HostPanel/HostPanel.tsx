@@ -0,0 +1,367 @@
+"use client";
+
+import { useState } from "react";
+import { clueName, formatClock } from "@/lib/display";
+import type {
+  CheckScope,
+  GameAction,
+  GameMode,
+  GameState,
+  HintCosts,
+  HostLogEntry,
+  UndoPolicy,
+} from "@/lib/game";
+import {
+  SCORING_PRESETS,
+  type ScoringPreset,
+  type ScoringRules,
+  scoringPreset,
+} from "@/lib/scoring";
+import crossword from "../Crossword/Crossword.module.css";
+import styles from "./HostPanel.module.css";
+
+// The host's side of the game: rules before Start, then moderation during
+// play. Every moderation action goes through the engine, which logs it.
+
+type Props = {
+  game: GameState;
+  dispatch: (action: GameAction) => void;
+  activeIndex: number | null; // square selected on the board
+};
+
+const SHOT_CLOCK_OPTIONS = [30, 60, 90, 120];
+const STEAL_OPTIONS = [10, 15, 20, 30];
+
+const SCORING_PRESET_LABELS: Record<ScoringPreset, string> = {
+  classic: "1 point per letter",
+  words: "Points per word",
+  league: "League (letters, words, bonuses)",
+};
+
+const SCORING_RULE_LABELS: Record<keyof ScoringRules, string> = {
+  letter: "Per letter",
+  word: "Per word",
+  soloWord: "Solo word bonus",
+  crossing: "Crossing bonus",
+  wrongGuess: "Wrong letter penalty",
+  themeMultiplier: "Theme entry multiplier",
+  steal: "Steal bonus",
+};
+
+const HINT_COST_LABELS: Record<keyof HintCosts, string> = {
+  letter: "Reveal letter costs",
+  word: "Reveal word costs",
+  check: "Check word costs",
+};
+
+function describe(entry: HostLogEntry, game: GameState): string {
+  const teamName = (id: number | null) =>
+    game.teams.find((t) => t.id === id)?.name ?? "no team";
+  const { action } = entry;
+  switch (action.type) {
+    case "setClueOrder":
+      return "Changed the clue order";
+    case "configure":
+      return "Changed the settings";
+    case "openClue":
+      return game.puz
+        ? `Opened ${clueName(game.puz, action.clue)}`
+        : "Opened a clue";
+    case "pause":
+      return "Paused the game";
+    case "resume":
+      return "Resumed the game";
+    case "skipTurn":
+      return game.settings.mode === "buzzer"
+        ? "Closed the clue"
+        : `Skipped ${teamName(entry.teamId)}'s turn`;
+    case "adjustScore":
+      return `${action.points > 0 ? "+" : ""}${action.points} to ${teamName(action.teamId)}: ${action.reason}`;
+    case "reopenCell": {
+      const width = game.puz?.width ?? 1;
+      return `Reopened the square at row ${Math.floor(action.index / width) + 1}, column ${(action.index % width) + 1}`;
+    }
+    case "endGame":
+      return "Ended the game early";
+  }
+}
+
+export default function HostPanel({ game, dispatch, activeIndex }: Props) {
+  const { settings, started, finished, teams } = game;
+  const [adjustTeam, setAdjustTeam] = useState<number | null>(null);
+  const [adjustPoints, setAdjustPoints] = useState("");
+  const [adjustReason, setAdjustReason] = useState("");
+  const configure = (changes: Partial<GameState["settings"]>) =>
+    dispatch({ type: "configure", settings: changes });
+  const adjustTeamId = adjustTeam ?? teams[0]?.id ?? null;
+  const points = Number(adjustPoints);
+  const reason = adjustReason.trim();
+
+  if (!started) {
+    return (
+      <div className={styles.panel}>
+        <div className={crossword.clueSectionTitle}>Game settings</div>
+        <label className={styles.settingRow}>
+          Mode
+          <select
+            value={settings.mode}
+            onChange={(e) => configure({ mode: e.target.value as GameMode })}
+          >
+            <option value="turns">Take turns</option>
+            <option value="buzzer">Buzzer</option>
+          </select>
+        </label>
+        <label className={styles.settingRow}>
+          Checking
+          <select
+            value={settings.checkScope}
+            onChange={(e) =>
+              configure({ checkScope: e.target.value as CheckScope })
+            }
+          >
+            <option value="board">Whole board</option>
+            <option value="entry">Claimed entry only</option>
+          </select>
+        </label>
+        <label className={styles.settingRow}>
+          Hide clues until claimed
+          <input
+            type="checkbox"
+            checked={settings.hideClues}
+            onChange={(e) => configure({ hideClues: e.target.checked })}
+          />
+        </label>
+        <label className={styles.settingRow}>
+          Undo
+          <select
+            value={settings.undo}
+            onChange={(e) => configure({ undo: e.target.value as UndoPolicy })}
+          >
+            <option value="edits">Letters until checked</option>
+            <option value="all">Anything, even checks</option>
+            <option value="off">Off</option>
+          </select>
+        </label>
+        <label className={styles.settingRow}>
+          Scoring
+          <select
+            value={scoringPreset(settings.scoring) ?? ""}
+            onChange={(e) => {
+              const preset = e.target.value as ScoringPreset | "";
+              if (preset) configure({ scoring: SCORING_PRESETS[preset] });
+            }}
+          >
+            {(Object.keys(SCORING_PRESETS) as ScoringPreset[]).map((p) => (
+              <option key={p} value={p}>
+                {SCORING_PRESET_LABELS[p]}
+              </option>
+            ))}
+            <option value="" disabled>
+              Custom
+            </option>
+          </select>
+        </label>
+        <details className={styles.group}>
+          <summary>Adjust scoring</summary>
+          {(Object.keys(SCORING_RULE_LABELS) as Array<keyof ScoringRules>).map(
+            (rule) => (
+              <label key={rule} className={styles.settingRow}>
+                {SCORING_RULE_LABELS[rule]}
+                <input
+                  type="number"
+                  className={styles.numberInput}
+                  min={rule === "themeMultiplier" ? 1 : 0}
+                  step={1}
+                  value={settings.scoring[rule]}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (!Number.isFinite(value)) return;
+                    configure({
+                      scoring: { ...settings.scoring, [rule]: value },
+                    });
+                  }}
+                />
+              </label>
+            ),
+          )}
+        </details>
+        <details className={styles.group}>
+          <summary>Hint costs</summary>
+          {(Object.keys(HINT_COST_LABELS) as Array<keyof HintCosts>).map(
+            (hint) => (
+              <label key={hint} className={styles.settingRow}>
+                {HINT_COST_LABELS[hint]}
+                <input
+                  type="number"
+                  className={styles.numberInput}
+                  min={0}
+                  step={1}
+                  value={settings.hintCosts[hint]}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (!Number.isFinite(value)) return;
+                    configure({
+                      hintCosts: { ...settings.hintCosts, [hint]: value },
+                    });
+                  }}
+                />
+              </label>
+            ),
+          )}
+        </details>
+        <label className={styles.settingRow}>
+          Shot clock
+          <select
+            value={settings.turnSeconds ?? ""}
+            onChange={(e) =>
+              configure({
+                turnSeconds: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+          >
+            <option value="">Off</option>
+            {SHOT_CLOCK_OPTIONS.map((s) => (
+              <option key={s} value={s}>
+                {s} seconds
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.settingRow}>
+          Steals
+          <select
+            value={settings.stealSeconds ?? ""}
+            onChange={(e) =>
+              configure({
+                stealSeconds: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+          >
+            <option value="">Off</option>
+            {STEAL_OPTIONS.map((s) => (
+              <option key={s} value={s}>
+                {s} seconds
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.settingRow}>
+          Speed bonus
+          <input
+            type="checkbox"
+            checked={settings.speedBonus}
+            onChange={(e) => configure({ speedBonus: e.target.checked })}
+          />
+        </label>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.panel}>
+      <div className={crossword.clueSectionTitle}>Host controls</div>
+      {!finished ? (
+        <div className={styles.buttons}>
+          <button
+            type="button"
+            className={crossword.btn}
+            disabled={settings.mode === "buzzer" && !game.claimed}
+            onClick={() => dispatch({ type: "skipTurn" })}
+          >
+            {settings.mode === "buzzer" ? "Close clue" : "Skip turn"}
+          </button>
+          <button
+            type="button"
+            className={crossword.btn}
+            disabled={
+              activeIndex == null || game.status[activeIndex] !== "correct"
+            }
+            onClick={() => {
+              if (activeIndex != null) {
+                dispatch({ type: "reopenCell", index: activeIndex });
+              }
+            }}
+            title="Let the selected square be typed in again"
+          >
+            Reopen square
+          </button>
+          <button
+            type="button"
+            className={crossword.btn}
+            onClick={() => {
+              if (
+                window.confirm("End the game now? Scores stand as they are.")
+              ) {
+                dispatch({ type: "endGame" });
+              }
+            }}
+          >
+            End game
+          </button>
+        </div>
+      ) : null}
+      <form
+        className={styles.adjust}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (adjustTeamId == null || !points || !reason) return;
+          dispatch({
+            type: "adjustScore",
+            teamId: adjustTeamId,
+            points,
+            reason,
+          });
+          setAdjustPoints("");
+          setAdjustReason("");
+        }}
+      >
+        <select
+          value={adjustTeamId ?? ""}
+          onChange={(e) => setAdjustTeam(Number(e.target.value))}
+          aria-label="Team to adjust"
+        >
+          {teams.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          className={styles.numberInput}
+          placeholder="±pts"
+          step={1}
+          value={adjustPoints}
+          onChange={(e) => setAdjustPoints(e.target.value)}
+          aria-label="Points to add or take away"
+        />
+        <input
+          type="text"
+          className={styles.reasonInput}
+          placeholder="Reason"
+          value={adjustReason}
+          onChange={(e) => setAdjustReason(e.target.value)}
+          aria-label="Reason for the adjustment"
+          required
+        />
+        <button
+          type="submit"
+          className={crossword.btn}
+          disabled={!points || !Number.isFinite(points) || !reason}
+        >
+          Adjust score
+        </button>
+      </form>
+      {game.hostLog.length > 0 ? (
+        <ol className={styles.log}>
+          {game.hostLog.map((entry, i) => (
+            <li key={`${entry.atMs}-${i}`}>
+              <span className={styles.logTime}>{formatClock(entry.atMs)}</span>
+              {describe(entry, game)}
+            </li>
+          ))}
+        </ol>
+      ) : null}
+    </div>
+  );
+}
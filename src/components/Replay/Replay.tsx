@@ -0,0 +1,309 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useWatchedGame } from "@/hooks/useWatchedGame";
+import { clueName, formatClock } from "@/lib/display";
+import { downloadFile, fileNameFor } from "@/lib/download";
+import {
+  type GameEvent,
+  type GameLog,
+  gameLog,
+  parseGameLog,
+  replayFrame,
+} from "@/lib/events";
+import styles from "./Replay.module.css";
+
+// Scrubs through a game's event log on the puzzle grid. The log is the game
+// being followed (see useWatchedGame), or a JSON log imported from a file.
+
+const PLAY_STEP_MS = 400;
+
+function describe(event: GameEvent, log: GameLog): string {
+  const { puz } = log;
+  const teamName = (id: number | null) =>
+    log.teams.find((t) => t.id === id)?.name ?? "Nobody";
+  const square = (i: number) =>
+    `row ${Math.floor(i / puz.width) + 1}, column ${(i % puz.width) + 1}`;
+  const team = teamName(event.teamId);
+  switch (event.type) {
+    case "start":
+      return "The game started";
+    case "letter":
+      if (event.cause === "undo" || event.cause === "redo") {
+        return `${team} ${event.cause === "undo" ? "undid" : "redid"} ${square(event.index)}`;
+      }
+      return event.value
+        ? `${team} typed ${event.value} in ${square(event.index)}`
+        : `${team} cleared ${square(event.index)}`;
+    case "reveal":
+      return `${team} revealed ${event.value} in ${square(event.index)}`;
+    case "check": {
+      if (event.cause === "reopenCell") {
+        return `The host reopened ${event.cells.map(([i]) => square(i)).join(" and ")}`;
+      }
+      const right = event.cells.filter(([, s]) => s === "correct").length;
+      const wrong = event.cells.filter(([, s]) => s === "incorrect").length;
+      return `${team} checked: ${right} right, ${wrong} wrong`;
+    }
+    case "clue":
+      return `${team} opened ${clueName(puz, event.clue)}`;
+    case "turn":
+      return event.to == null
+        ? "Waiting for a team to buzz in"
+        : `${teamName(event.to)}'s turn`;
+    case "score":
+      return `${event.points > 0 ? "+" : ""}${event.points} to ${team} (now ${event.total})`;
+    case "end":
+      return "The game is over";
+  }
+}
+
+export default function Replay() {
+  const watched = useWatchedGame();
+  const [imported, setImported] = useState<GameLog | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  // Events shown; null follows the end of the log as it grows
+  const [position, setPosition] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const eventsRef = useRef<HTMLOListElement | null>(null);
+
+  const followed = useMemo(
+    () => (watched.game ? gameLog(watched.game) : null),
+    [watched.game],
+  );
+  const log = imported ?? followed;
+  const total = log?.events.length ?? 0;
+  const shown = Math.min(position ?? total, total);
+  const frame = useMemo(
+    () => (log ? replayFrame(log, shown) : null),
+    [log, shown],
+  );
+  const numbers = useMemo(() => {
+    const map = new Map<number, number>();
+    if (!log) return map;
+    for (const e of [...log.puz.across, ...log.puz.down]) {
+      map.set(e.cells[0].index, e.number);
+    }
+    return map;
+  }, [log]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (shown >= total) {
+      setPlaying(false);
+      return;
+    }
+    const t = setTimeout(() => setPosition(shown + 1), PLAY_STEP_MS);
+    return () => clearTimeout(t);
+  }, [playing, shown, total]);
+
+  useEffect(() => {
+    eventsRef.current?.children[shown - 1]?.scrollIntoView({
+      block: "nearest",
+    });
+  }, [shown]);
+
+  const onImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setImported(parseGameLog(await file.text()));
+      setImportError(null);
+      setPosition(0);
+      setPlaying(false);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const exportLog = () => {
+    if (!log) return;
+    downloadFile(
+      fileNameFor(`${log.puz.title} log`, ".json"),
+      JSON.stringify(log),
+      "application/json",
+    );
+  };
+
+  const importButton = (
+    <>
+      <button
+        type="button"
+        className={styles.btn}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        Import log
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={(e) => {
+          onImport(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+      />
+    </>
+  );
+
+  if (!log || !frame) {
+    return (
+      <div className={styles.waiting}>
+        <p>
+          {watched.roomCode
+            ? (watched.error ??
+              `Waiting for room ${watched.roomCode.toUpperCase()}…`)
+            : "Waiting for a game. Start one in another tab of this browser, or import a log."}
+        </p>
+        {importButton}
+        {importError ? <p className={styles.error}>{importError}</p> : null}
+      </div>
+    );
+  }
+
+  const { puz } = log;
+  const last = shown > 0 ? log.events[shown - 1] : null;
+  const touched = new Set<number>();
+  if (last?.type === "letter" || last?.type === "reveal") {
+    touched.add(last.index);
+  } else if (last?.type === "check") {
+    for (const [i] of last.cells) touched.add(i);
+  }
+  const colorOf = (id: number | null) =>
+    log.teams.find((t) => t.id === id)?.color;
+
+  return (
+    <div className={styles.replay}>
+      <div
+        className={styles.grid}
+        style={
+          {
+            gridTemplateColumns: `repeat(${puz.width}, var(--cell))`,
+            "--cell": `min(calc(70vh / ${puz.height}), calc(55vw / ${puz.width}))`,
+          } as React.CSSProperties
+        }
+      >
+        {puz.grid.map((cell, i) =>
+          cell.isBlock ? (
+            <div key={cell.index} className={styles.block} />
+          ) : (
+            <div
+              key={cell.index}
+              className={`${styles.cell} ${touched.has(i) ? styles.touched : ""} ${frame.status[i] === "correct" ? styles.correct : ""} ${frame.status[i] === "incorrect" ? styles.incorrect : ""} ${frame.revealedCells[i] ? styles.revealed : ""} ${cell.circled ? styles.circled : ""}`}
+            >
+              {numbers.has(i) ? (
+                <span className={styles.number}>{numbers.get(i)}</span>
+              ) : null}
+              <span
+                className={`${styles.letter} ${(frame.cells[i]?.length ?? 0) > 1 ? styles.rebus : ""}`}
+                style={{ color: colorOf(frame.owners[i] ?? null) }}
+              >
+                {frame.cells[i]}
+              </span>
+            </div>
+          ),
+        )}
+      </div>
+
+      <div className={styles.side}>
+        <div className={styles.title}>{puz.title || "Untitled puzzle"}</div>
+        <div className={styles.controls}>
+          <button
+            type="button"
+            className={styles.btn}
+            disabled={shown === 0}
+            onClick={() => setPosition(shown - 1)}
+            aria-label="Previous event"
+          >
+            ◀
+          </button>
+          <button
+            type="button"
+            className={styles.btn}
+            onClick={() => {
+              if (shown >= total) setPosition(0);
+              setPlaying(!playing);
+            }}
+          >
+            {playing ? "Pause" : "Play"}
+          </button>
+          <button
+            type="button"
+            className={styles.btn}
+            disabled={shown >= total}
+            onClick={() => setPosition(shown + 1)}
+            aria-label="Next event"
+          >
+            ▶
+          </button>
+          <span className={styles.time}>{formatClock(frame.atMs)}</span>
+        </div>
+        <input
+          type="range"
+          className={styles.scrubber}
+          min={0}
+          max={total}
+          value={shown}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            setPosition(value >= total && !imported ? null : value);
+          }}
+          aria-label="Replay position"
+        />
+        <ol className={styles.scores}>
+          {log.teams.map((t) => (
+            <li
+              key={t.id}
+              className={`${styles.team} ${t.id === frame.currentTeamId && !frame.finished ? styles.teamActive : ""}`}
+            >
+              <span className={styles.dot} style={{ background: t.color }} />
+              <span className={styles.teamName}>{t.name}</span>
+              <span className={styles.score}>
+                {frame.scores.get(t.id) ?? 0}
+              </span>
+            </li>
+          ))}
+        </ol>
+        <ol ref={eventsRef} className={styles.events}>
+          {log.events.map((event, i) => (
+            <li
+              key={`${event.atMs}-${i}`}
+              className={`${i < shown ? "" : styles.eventAhead} ${i === shown - 1 ? styles.eventCurrent : ""}`}
+            >
+              <button
+                type="button"
+                className={styles.eventBtn}
+                onClick={() => setPosition(i + 1)}
+              >
+                <span className={styles.eventTime}>
+                  {formatClock(event.atMs)}
+                </span>
+                {describe(event, log)}
+              </button>
+            </li>
+          ))}
+        </ol>
+        <div className={styles.controls}>
+          {importButton}
+          <button type="button" className={styles.btn} onClick={exportLog}>
+            Export log
+          </button>
+          {imported ? (
+            <button
+              type="button"
+              className={styles.btn}
+              onClick={() => {
+                setImported(null);
+                setPosition(null);
+              }}
+            >
+              Close log
+            </button>
+          ) : null}
+        </div>
+        {importError ? <p className={styles.error}>{importError}</p> : null}
+      </div>
+    </div>
+  );
+}
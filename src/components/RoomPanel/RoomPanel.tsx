@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import type { RoomConnection } from "@/hooks/useRoom";
+import styles from "./RoomPanel.module.css";
+
+type Props = {
+  room: RoomConnection;
+};
+
+// Create/join controls while offline; room code, players and Leave once
+// connected.
+export default function RoomPanel({ room }: Props) {
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+
+  if (room.status === "online" && room.code) {
+    return (
+      <div className={styles.panel}>
+        <div className={styles.row}>
+          <span>
+            Room <strong className={styles.code}>{room.code}</strong>
+            {room.me?.isHost ? " (host)" : ""}
+          </span>
+          <button type="button" className={styles.btn} onClick={room.leave}>
+            Leave
+          </button>
+        </div>
+        <div className={styles.players}>
+          {room.players.map((p) => p.name).join(", ")}
+        </div>
+        {room.error ? <div className={styles.error}>{room.error}</div> : null}
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.row}>
+        <input
+          className={styles.input}
+          placeholder="Your name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="Your name"
+        />
+        <button
+          type="button"
+          className={styles.btn}
+          disabled={room.status === "connecting"}
+          onClick={() => room.create(name)}
+        >
+          Create room
+        </button>
+      </div>
+      <form
+        className={styles.row}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (code.trim()) room.join(code, name);
+        }}
+      >
+        <input
+          className={styles.input}
+          placeholder="Room code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          aria-label="Room code"
+        />
+        <button
+          type="submit"
+          className={styles.btn}
+          disabled={room.status === "connecting" || !code.trim()}
+        >
+          Join
+        </button>
+      </form>
+      {room.error ? <div className={styles.error}>{room.error}</div> : null}
+    </div>
+  );
+}
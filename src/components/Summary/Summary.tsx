@@ -0,0 +1,132 @@
+"use client";
+
+import { useMemo } from "react";
+import { formatClock } from "@/lib/display";
+import { downloadFile, fileNameFor } from "@/lib/download";
+import type { GameState } from "@/lib/game";
+import { gameSummary, summaryCsv } from "@/lib/summary";
+import crossword from "../Crossword/Crossword.module.css";
+import styles from "./Summary.module.css";
+
+// Shown once a game is over: the winner, a table of per-team stats, and the
+// board as a heatmap of who filled which square.
+
+type Props = {
+  game: GameState;
+  onClose: () => void;
+};
+
+export default function Summary({ game, onClose }: Props) {
+  const summary = useMemo(() => gameSummary(game), [game]);
+  const { puz } = game;
+  if (!puz) return null;
+  const winners = summary.teams.filter((t) =>
+    summary.winners.includes(t.teamId),
+  );
+  const colorOf = (id: number | null) =>
+    game.teams.find((t) => t.id === id)?.color;
+  const exportName = (ext: string) =>
+    fileNameFor(`${summary.title} stats`, ext);
+
+  return (
+    <section className={styles.summary} aria-label="Game summary">
+      <div
+        className={styles.banner}
+        style={
+          winners.length === 1 ? { background: winners[0].color } : undefined
+        }
+      >
+        {winners.length === 1
+          ? `${winners[0].name} wins!`
+          : winners.length > 1
+            ? `It's a tie: ${winners.map((t) => t.name).join(" and ")}`
+            : "Game over"}
+        <span className={styles.bannerTime}>
+          {formatClock(summary.elapsedMs)}
+        </span>
+      </div>
+      <div className={styles.body}>
+        <table className={styles.stats}>
+          <thead>
+            <tr>
+              <th>Team</th>
+              <th>Score</th>
+              <th>Letters</th>
+              <th>Words</th>
+              <th>Hints</th>
+              <th>Wrong letters</th>
+              <th>Time per word</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.teams.map((t) => (
+              <tr key={t.teamId}>
+                <th scope="row">
+                  <span
+                    className={styles.dot}
+                    style={{ background: t.color }}
+                  />
+                  {t.name}
+                </th>
+                <td>{t.score}</td>
+                <td>{t.letters}</td>
+                <td>{t.words}</td>
+                <td>{t.hints}</td>
+                <td>{t.wrongGuesses}</td>
+                <td>{t.msPerWord == null ? "–" : formatClock(t.msPerWord)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div
+          className={styles.heatmap}
+          style={{ gridTemplateColumns: `repeat(${puz.width}, 1fr)` }}
+          role="img"
+          aria-label="Grid colored by the team that filled each square"
+        >
+          {puz.grid.map((cell, i) => {
+            if (cell.isBlock) {
+              return <span key={cell.index} className={styles.block} />;
+            }
+            const owner =
+              game.status[i] === "correct" ? (game.owners[i] ?? null) : null;
+            return (
+              <span
+                key={cell.index}
+                className={`${styles.square} ${game.revealedCells[i] ? styles.revealed : ""}`}
+                style={{ background: colorOf(owner) }}
+              />
+            );
+          })}
+        </div>
+      </div>
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className={crossword.btn}
+          onClick={() =>
+            downloadFile(exportName(".csv"), summaryCsv(summary), "text/csv")
+          }
+        >
+          Export CSV
+        </button>
+        <button
+          type="button"
+          className={crossword.btn}
+          onClick={() =>
+            downloadFile(
+              exportName(".json"),
+              JSON.stringify(summary, null, 2),
+              "application/json",
+            )
+          }
+        >
+          Export JSON
+        </button>
+        <button type="button" className={crossword.btn} onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </section>
+  );
+}
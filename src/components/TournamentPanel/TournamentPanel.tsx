@@ -0,0 +1,242 @@
+"use client";
+
+import { type Dispatch, type SetStateAction, useRef, useState } from "react";
+import { PUZZLE_ACCEPT, parsePuzzleFile } from "@/lib/formats";
+import type { GameState } from "@/lib/game";
+import type { ParsedPuz } from "@/lib/puz";
+import { puzzleId } from "@/lib/saves";
+import {
+  addRound,
+  createTournament,
+  nextRound,
+  removeRound,
+  setRoundWeight,
+  standings,
+  type Tournament,
+} from "@/lib/tournament";
+import crossword from "../Crossword/Crossword.module.css";
+import styles from "./TournamentPanel.module.css";
+
+// The host's tournament: the queue of puzzles with their weights, the
+// standings so far, and the way on to the next round. The game itself is
+// played as usual; the parent records each round's scores when it ends.
+
+type Props = {
+  tournament: Tournament | null;
+  onChange: Dispatch<SetStateAction<Tournament | null>>;
+  game: GameState;
+  onPlay: (round: number) => void;
+};
+
+export default function TournamentPanel({
+  tournament,
+  onChange,
+  game,
+  onPlay,
+}: Props) {
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  if (!tournament) {
+    return (
+      <form
+        className={styles.panel}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onChange(createTournament(name, game.teams));
+          setName("");
+        }}
+      >
+        <div className={crossword.clueSectionTitle}>Tournament</div>
+        <p className={styles.hint}>
+          Play a queue of puzzles with the same teams and keep standings across
+          them.
+        </p>
+        <span className={styles.row}>
+          <input
+            type="text"
+            className={styles.nameInput}
+            placeholder="Tournament name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button type="submit" className={crossword.btn}>
+            Start a tournament
+          </button>
+        </span>
+      </form>
+    );
+  }
+
+  // Reading takes a while; the rounds go onto the tournament as it is by then,
+  // so edits (and scores recorded) in the meantime aren't lost
+  const addFiles = async (files: File[]) => {
+    const added: Array<[string, ParsedPuz]> = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const buf = await file.arrayBuffer();
+        const puz = await parsePuzzleFile(file.name, buf);
+        added.push([await puzzleId(buf), puz]);
+      } catch (err) {
+        failed.push(
+          `${file.name}: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+    setError(failed.length ? `Couldn't read ${failed.join("; ")}` : null);
+    onChange((latest) =>
+      latest
+        ? added.reduce((next, [id, puz]) => addRound(next, id, puz), latest)
+        : latest,
+    );
+  };
+
+  const table = standings(tournament);
+  const upNext = nextRound(tournament);
+  const playing = tournament.current;
+  // Rounds can only be switched between games, not halfway through one
+  const canPlay = !game.started || game.finished;
+
+  return (
+    <div className={styles.panel}>
+      <div className={crossword.clueSectionTitle}>
+        {tournament.name}
+        {playing != null
+          ? ` · Round ${playing + 1} of ${tournament.rounds.length}`
+          : ""}
+      </div>
+      {tournament.rounds.length ? (
+        <ol className={styles.rounds}>
+          {tournament.rounds.map((round, i) => (
+            <li
+              key={`${round.id}-${i}`}
+              className={`${styles.round} ${i === playing ? styles.roundPlaying : ""}`}
+            >
+              <span className={styles.roundTitle}>
+                {i + 1}. {round.title}
+                {round.scores ? " ✓" : ""}
+              </span>
+              <label className={styles.weight} title="Round weight">
+                ×
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={round.weight}
+                  onChange={(e) =>
+                    onChange(
+                      setRoundWeight(tournament, i, Number(e.target.value)),
+                    )
+                  }
+                  aria-label={`Weight of round ${i + 1}`}
+                />
+              </label>
+              <button
+                type="button"
+                className={crossword.btn}
+                disabled={!canPlay || i === playing}
+                onClick={() => onPlay(i)}
+              >
+                {round.scores ? "Replay" : "Play"}
+              </button>
+              <button
+                type="button"
+                className={crossword.btn}
+                disabled={i === playing && !canPlay}
+                onClick={() => onChange(removeRound(tournament, i))}
+                aria-label={`Remove round ${i + 1}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className={styles.hint}>Add the puzzles to play, in order.</p>
+      )}
+      {table.length ? (
+        <table className={styles.standings}>
+          <thead>
+            <tr>
+              <th>Standings</th>
+              {tournament.rounds.map((r, i) => (
+                <th key={`${r.id}-${i}`} title={r.title}>
+                  R{i + 1}
+                </th>
+              ))}
+              <th>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {table.map((s) => (
+              <tr key={s.team.id}>
+                <th scope="row">
+                  <span
+                    className={crossword.dot}
+                    style={{ background: s.team.color }}
+                  />
+                  {s.team.name}
+                </th>
+                {s.rounds.map((score, i) => (
+                  <td key={`${tournament.rounds[i].id}-${i}`}>
+                    {score ?? "–"}
+                  </td>
+                ))}
+                <td className={styles.total}>{s.total}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+      <span className={styles.row}>
+        {upNext != null && canPlay ? (
+          <button
+            type="button"
+            className={crossword.btn}
+            onClick={() => onPlay(upNext)}
+          >
+            {playing == null
+              ? `Play round ${upNext + 1}`
+              : `Next puzzle: round ${upNext + 1}`}
+          </button>
+        ) : null}
+        <button
+          type="button"
+          className={crossword.btn}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Add puzzles
+        </button>
+        <button
+          type="button"
+          className={crossword.btn}
+          onClick={() => {
+            if (
+              window.confirm(
+                `End ${tournament.name}? Its standings will be lost.`,
+              )
+            ) {
+              onChange(null);
+            }
+          }}
+        >
+          End tournament
+        </button>
+      </span>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={PUZZLE_ACCEPT}
+        multiple
+        hidden
+        onChange={(e) => {
+          addFiles(Array.from(e.target.files ?? []));
+          e.target.value = "";
+        }}
+      />
+      {error ? <div className={crossword.loadError}>{error}</div> : null}
+    </div>
+  );
+}
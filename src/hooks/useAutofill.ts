@@ -0,0 +1,101 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { AutofillResult } from "@/lib/autofill";
+import type { AutofillRequest, AutofillResponse } from "@/lib/autofill.worker";
+import type { Cell } from "@/lib/puz";
+
+export type AutofillStatus = "idle" | "loading" | "filling";
+
+export type AutofillControls = {
+  status: AutofillStatus;
+  wordCount: number | null; // null until a list is loaded
+  steps: number; // dead ends so far in the running fill
+  result: AutofillResult | null;
+  loadWords: (text: string) => void;
+  fill: (
+    grid: Cell[],
+    width: number,
+    height: number,
+    minScore?: number,
+  ) => void;
+  stop: () => void;
+};
+
+// Owns the autofill worker. Stopping a fill terminates the worker (the search
+// is synchronous, so it can't be interrupted), and the next request starts a
+// fresh one with the word list sent again.
+export function useAutofill(): AutofillControls {
+  const workerRef = useRef<Worker | null>(null);
+  const wordsRef = useRef<string | null>(null);
+  const [status, setStatus] = useState<AutofillStatus>("idle");
+  const [wordCount, setWordCount] = useState<number | null>(null);
+  const [steps, setSteps] = useState(0);
+  const [result, setResult] = useState<AutofillResult | null>(null);
+
+  const worker = useCallback(() => {
+    if (workerRef.current) return workerRef.current;
+    const w = new Worker(new URL("../lib/autofill.worker.ts", import.meta.url));
+    w.addEventListener("message", (e: MessageEvent<AutofillResponse>) => {
+      const msg = e.data;
+      switch (msg.type) {
+        case "words":
+          setWordCount(msg.count);
+          setStatus("idle");
+          break;
+        case "progress":
+          setSteps(msg.steps);
+          break;
+        case "result":
+          setResult(msg.result);
+          setSteps(msg.result.steps);
+          setStatus("idle");
+          break;
+      }
+    });
+    if (wordsRef.current != null) {
+      w.postMessage({
+        type: "words",
+        text: wordsRef.current,
+      } satisfies AutofillRequest);
+    }
+    workerRef.current = w;
+    return w;
+  }, []);
+
+  const loadWords = useCallback(
+    (text: string) => {
+      wordsRef.current = text;
+      setStatus("loading");
+      setResult(null);
+      worker().postMessage({ type: "words", text } satisfies AutofillRequest);
+    },
+    [worker],
+  );
+
+  const fill = useCallback(
+    (grid: Cell[], width: number, height: number, minScore?: number) => {
+      setStatus("filling");
+      setSteps(0);
+      setResult(null);
+      worker().postMessage({
+        type: "fill",
+        grid,
+        width,
+        height,
+        minScore,
+      } satisfies AutofillRequest);
+    },
+    [worker],
+  );
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setStatus("idle");
+  }, []);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { status, wordCount, steps, result, loadWords, fill, stop };
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { GameAction, GameState } from "@/lib/game";
+import {
+  applyPatch,
+  type ClientMessage,
+  type Player,
+  type ServerMessage,
+} from "@/lib/room";
+
+export type RoomStatus = "offline" | "connecting" | "online";
+
+export type RoomConnection = {
+  status: RoomStatus;
+  code: string | null;
+  playerId: string | null;
+  me: Player | null;
+  players: Player[];
+  game: GameState | null; // mirrored authoritative state while in a room
+  error: string | null;
+  create: (name: string) => void;
+  join: (code: string, name: string) => void;
+  watch: (code: string) => void; // follow a room without joining it
+  leave: () => void;
+  pickTeam: (teamId: number | null) => void;
+  dispatch: (action: GameAction) => void;
+};
+
+const serverUrl = () =>
+  process.env.NEXT_PUBLIC_ROOM_SERVER ||
+  `${window.location.protocol === "https:" ? "wss" : "ws"}://${window.location.hostname}:3001`;
+
+export function useRoom(): RoomConnection {
+  const wsRef = useRef<WebSocket | null>(null);
+  const versionRef = useRef(0);
+  const [status, setStatus] = useState<RoomStatus>("offline");
+  const [code, setCode] = useState<string | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [game, setGame] = useState<GameState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = useCallback((msg: ClientMessage) => {
+    const ws = wsRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  }, []);
+
+  const onMessage = useCallback(
+    (msg: ServerMessage) => {
+      switch (msg.type) {
+        case "welcome":
+          versionRef.current = msg.version;
+          setCode(msg.code);
+          setPlayerId(msg.playerId);
+          setPlayers(msg.players);
+          setGame(msg.state);
+          setStatus("online");
+          setError(null);
+          break;
+        case "patch":
+          // A gap means we missed something; ask for a fresh snapshot
+          if (msg.patch.version !== versionRef.current + 1) {
+            send({ type: "sync" });
+            break;
+          }
+          versionRef.current = msg.patch.version;
+          setGame((prev) => (prev ? applyPatch(prev, msg.patch) : prev));
+          break;
+        case "players":
+          setPlayers(msg.players);
+          break;
+        case "error":
+          setError(msg.message);
+          break;
+      }
+    },
+    [send],
+  );
+
+  const leave = useCallback(() => {
+    wsRef.current?.close();
+    wsRef.current = null;
+    setStatus("offline");
+    setCode(null);
+    setPlayerId(null);
+    setPlayers([]);
+    setGame(null);
+  }, []);
+
+  // Opens a fresh socket and sends `first` once it is connected
+  const connect = useCallback(
+    (first: ClientMessage) => {
+      wsRef.current?.close();
+      setStatus("connecting");
+      setError(null);
+      let ws: WebSocket;
+      try {
+        ws = new WebSocket(serverUrl());
+      } catch {
+        setStatus("offline");
+        setError("Could not reach the room server");
+        return;
+      }
+      wsRef.current = ws;
+      ws.onopen = () => ws.send(JSON.stringify(first));
+      ws.onmessage = (e) => onMessage(JSON.parse(String(e.data)));
+      ws.onerror = () => setError("Could not reach the room server");
+      ws.onclose = () => {
+        if (wsRef.current !== ws) return;
+        wsRef.current = null;
+        setStatus("offline");
+        setGame(null);
+      };
+    },
+    [onMessage],
+  );
+
+  useEffect(() => () => wsRef.current?.close(), []);
+
+  const create = useCallback(
+    (name: string) => connect({ type: "create", name }),
+    [connect],
+  );
+  const join = useCallback(
+    (roomCode: string, name: string) =>
+      connect({ type: "join", code: roomCode, name }),
+    [connect],
+  );
+  const watch = useCallback(
+    (roomCode: string) => connect({ type: "watch", code: roomCode }),
+    [connect],
+  );
+  const pickTeam = useCallback(
+    (teamId: number | null) => send({ type: "pickTeam", teamId }),
+    [send],
+  );
+  const dispatch = useCallback(
+    (action: GameAction) => send({ type: "action", action }),
+    [send],
+  );
+
+  return {
+    status,
+    code,
+    playerId,
+    me: players.find((p) => p.id === playerId) ?? null,
+    players,
+    game,
+    error,
+    create,
+    join,
+    watch,
+    leave,
+    pickTeam,
+    dispatch,
+  };
+}
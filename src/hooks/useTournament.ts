@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  readTournament,
+  type Tournament,
+  writeTournament,
+} from "@/lib/tournament";
+
+// The tournament saved in this browser, written back on every change
+export function useTournament() {
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setTournament(readTournament());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) writeTournament(tournament);
+  }, [loaded, tournament]);
+
+  return [tournament, setTournament] as const;
+}
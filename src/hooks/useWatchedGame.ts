@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRoom } from "@/hooks/useRoom";
+import { type DisplayMessage, openDisplayChannel } from "@/lib/display";
+import type { GameState } from "@/lib/game";
+
+export type WatchedGame = {
+  game: GameState | null;
+  roomCode: string | null; // from ?room=, when watching a networked room
+  error: string | null;
+};
+
+// Follows a game without playing in it, for the read-only pages: with
+// ?room=CODE it watches that room; otherwise it follows the game tab open on
+// this machine over the display channel.
+export function useWatchedGame(): WatchedGame {
+  const room = useRoom();
+  const { watch } = room;
+  const [roomCode, setRoomCode] = useState<string | null>(null);
+  const [localGame, setLocalGame] = useState<GameState | null>(null);
+
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("room");
+    if (code) {
+      setRoomCode(code);
+      watch(code);
+    }
+  }, [watch]);
+
+  useEffect(() => {
+    if (roomCode) return;
+    const channel = openDisplayChannel();
+    if (!channel) return;
+    channel.onmessage = (e: MessageEvent<DisplayMessage>) => {
+      if (e.data.type === "state") setLocalGame(e.data.state);
+    };
+    channel.postMessage({ type: "hello" } satisfies DisplayMessage);
+    return () => channel.close();
+  }, [roomCode]);
+
+  return {
+    game: roomCode ? room.game : localGame,
+    roomCode,
+    error: room.error,
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { autofill, parseWordList } from "./autofill";
+import type { Cell } from "./puz";
+
+// Rows of letters, "." for an open square and "#" for a block
+function grid(rows: string[]): Cell[] {
+  const width = rows[0].length;
+  return [...rows.join("")].map((ch, index) => ({
+    row: Math.floor(index / width),
+    col: index % width,
+    index,
+    isBlock: ch === "#",
+    solution: ch === "#" ? "." : ch === "." ? "" : ch,
+  }));
+}
+
+// Fills CAT/ORE/WED (down COW, ARE, TED), or BAT/ORE/WED with BOW, or either
+// turned on its side; no word may be used twice
+const words = parseWordList(
+  "CAT;90\nBAT;40\nORE\nWED\nCOW;90\nBOW;40\nARE\nTED\nDOG",
+);
+const open = ["...", "...", "..."];
+
+// The rows and columns of a filled 3x3 grid
+const answers = (letters: string[]) =>
+  [0, 1, 2].flatMap((n) => [
+    letters.slice(n * 3, n * 3 + 3).join(""),
+    [0, 1, 2].map((r) => letters[r * 3 + n]).join(""),
+  ]);
+
+describe("autofill", () => {
+  it("fills an open grid from the list", () => {
+    const result = autofill(grid(open), 3, 3, words);
+    expect(result.status).toBe("filled");
+    if (result.status !== "filled") return;
+    const fill = answers(result.letters);
+    expect(new Set(fill).size).toBe(6);
+    for (const word of fill)
+      expect(words.get(3)?.map((w) => w.word)).toContain(word);
+    expect(result.letters[0]).toBe("C");
+  });
+
+  it("keeps the letters already typed", () => {
+    const result = autofill(grid(["B..", "O..", "..."]), 3, 3, words);
+    expect(result.status).toBe("filled");
+    if (result.status !== "filled") return;
+    expect(result.letters.join("")).toBe("BATOREWED");
+  });
+
+  it("reports a grid no list word fits, and where", () => {
+    const result = autofill(grid(["X..", "...", "..."]), 3, 3, words);
+    expect(result.status).toBe("unfillable");
+    if (result.status === "filled") return;
+    expect(result.stuck[0].pattern).toMatch(/^X/);
+  });
+
+  it("gives up once out of steps", () => {
+    const result = autofill(grid(open), 3, 3, words, { maxSteps: 0 });
+    expect(result.status).toBe("gave-up");
+  });
+});
@@ -0,0 +1,263 @@
+import type { Direction } from "./game";
+import { buildEntries, type Cell } from "./puz";
+
+// Grid autofill over a user-supplied word list. Slots are the grid's entries
+// as buildEntries numbers them; each empty square keeps a bitmask of letters
+// still possible there. Propagation narrows every slot's candidate words to
+// the masks and the masks to the candidates until nothing changes, then the
+// search fills the slot with the fewest candidates (best-scored words first)
+// and backtracks on dead ends. Runs anywhere, but the UI calls it from
+// autofill.worker.ts so big lists don't freeze the page.
+
+export type ScoredWord = { word: string; score: number };
+
+// Candidate words by length, best score first
+export type WordList = Map<number, ScoredWord[]>;
+
+export type AutofillSlot = {
+  direction: Direction;
+  number: number;
+  cells: number[];
+  pattern: string; // letters placed so far, "." for open squares
+};
+
+export type AutofillResult =
+  | { status: "filled"; letters: string[]; steps: number }
+  // No fill exists (or none was found within maxSteps, for "gave-up"); `stuck`
+  // are the slots that failed most often, i.e. the region to rework
+  | { status: "unfillable" | "gave-up"; stuck: AutofillSlot[]; steps: number };
+
+export type AutofillOptions = {
+  minScore?: number; // ignore words scored below this
+  maxSteps?: number; // give up after this many dead ends
+  onProgress?: (steps: number) => void;
+};
+
+const DEFAULT_SCORE = 50;
+const DEFAULT_MAX_STEPS = 50000;
+const PROGRESS_EVERY = 500;
+const STUCK_SLOTS = 3;
+
+const ALL_LETTERS = (1 << 26) - 1;
+const bit = (ch: string) => 1 << (ch.charCodeAt(0) - 65);
+
+// One word per line, optionally followed by a score: "WORD;50" (the common
+// Crossfire/Spread the Wordlist format), "WORD,50", "WORD 50" or "WORD\t50".
+// Words are reduced to A-Z; a repeated word keeps its highest score.
+export function parseWordList(text: string): WordList {
+  const best = new Map<string, number>();
+  for (const line of text.split(/\r?\n/)) {
+    const m = /^\s*([^;,\t ]+)(?:[;,\t ]+(-?\d+(?:\.\d+)?))?/.exec(line);
+    if (!m) continue;
+    const word = m[1].toUpperCase().replace(/[^A-Z]/g, "");
+    if (word.length < 2) continue;
+    const score = m[2] != null ? Number(m[2]) : DEFAULT_SCORE;
+    if (!best.has(word) || (best.get(word) ?? 0) < score) best.set(word, score);
+  }
+  const list: WordList = new Map();
+  for (const [word, score] of best) {
+    const bucket = list.get(word.length) ?? [];
+    bucket.push({ word, score });
+    list.set(word.length, bucket);
+  }
+  for (const bucket of list.values()) {
+    bucket.sort((a, b) => b.score - a.score || a.word.localeCompare(b.word));
+  }
+  return list;
+}
+
+export function wordCount(list: WordList): number {
+  let n = 0;
+  for (const bucket of list.values()) n += bucket.length;
+  return n;
+}
+
+type Slot = AutofillSlot & { crossings: number[][] }; // slot indexes per cell
+
+type SearchState = {
+  masks: Uint32Array; // per cell; only meaningful for open squares
+  domains: string[][]; // per slot
+};
+
+// `grid` squares with an empty solution are open; any letter already there is
+// kept. Entries that are already complete are left alone even when the word
+// isn't in the list, as are entries through rebus squares.
+export function autofill(
+  grid: Cell[],
+  width: number,
+  height: number,
+  words: WordList,
+  opts: AutofillOptions = {},
+): AutofillResult {
+  const minScore = opts.minScore ?? Number.NEGATIVE_INFINITY;
+  const maxSteps = opts.maxSteps ?? DEFAULT_MAX_STEPS;
+  const { across, down } = buildEntries(grid, width, height);
+
+  const slots: Slot[] = [];
+  for (const [direction, list] of [
+    ["across", across],
+    ["down", down],
+  ] as const) {
+    for (const e of list) {
+      const letters = e.cells.map((c) => c.solution);
+      if (letters.every(Boolean) || letters.some((l) => l.length > 1)) continue;
+      slots.push({
+        direction,
+        number: e.number,
+        cells: e.cells.map((c) => c.index),
+        pattern: letters.map((l) => l || ".").join(""),
+        crossings: [],
+      });
+    }
+  }
+  const slotsAt = new Map<number, number[]>();
+  slots.forEach((s, k) => {
+    for (const i of s.cells) slotsAt.set(i, [...(slotsAt.get(i) ?? []), k]);
+  });
+  for (const s of slots) s.crossings = s.cells.map((i) => slotsAt.get(i) ?? []);
+
+  const initial: SearchState = {
+    masks: new Uint32Array(grid.length),
+    domains: [],
+  };
+  grid.forEach((c, i) => {
+    initial.masks[i] = c.solution.length === 1 ? bit(c.solution) : ALL_LETTERS;
+  });
+  // Words already complete elsewhere in the grid can't be used again
+  const placed = new Set(
+    [...across, ...down]
+      .filter((e) => e.cells.every((c) => c.solution.length === 1))
+      .map((e) => e.cells.map((c) => c.solution).join("")),
+  );
+  initial.domains = slots.map((s) =>
+    (words.get(s.cells.length) ?? [])
+      .filter((w) => w.score >= minScore && !placed.has(w.word))
+      .map((w) => w.word),
+  );
+
+  const failures = new Array<number>(slots.length).fill(0);
+  let steps = 0;
+  const stuck = () =>
+    failures
+      .map((n, k) => [n, k] as const)
+      .filter(([n]) => n > 0)
+      .sort((a, b) => b[0] - a[0])
+      .slice(0, STUCK_SLOTS)
+      .map(([, k]) => {
+        const { crossings: _, ...slot } = slots[k];
+        return slot;
+      });
+
+  // Narrows `state` in place; returns the slot that ran out of words, if any
+  const propagate = (state: SearchState, queue: number[]): number | null => {
+    const queued = new Set(queue);
+    while (queue.length) {
+      const k = queue.shift() as number;
+      queued.delete(k);
+      const { cells } = slots[k];
+      const domain = state.domains[k].filter((w) => {
+        for (let p = 0; p < cells.length; p++) {
+          if (!(state.masks[cells[p]] & bit(w[p]))) return false;
+        }
+        return true;
+      });
+      if (!domain.length) return k;
+      state.domains[k] = domain;
+      for (let p = 0; p < cells.length; p++) {
+        let allowed = 0;
+        for (const w of domain) allowed |= bit(w[p]);
+        const cell = cells[p];
+        const narrowed = state.masks[cell] & allowed;
+        if (narrowed === state.masks[cell]) continue;
+        state.masks[cell] = narrowed;
+        for (const other of slots[k].crossings[p]) {
+          if (other !== k && !queued.has(other)) {
+            queued.add(other);
+            queue.push(other);
+          }
+        }
+      }
+    }
+    return null;
+  };
+
+  // Two slots settled on the same word is a dead end too
+  const duplicateSlot = (state: SearchState): number | null => {
+    const seen = new Set<string>();
+    for (let k = 0; k < slots.length; k++) {
+      if (state.domains[k].length !== 1) continue;
+      if (seen.has(state.domains[k][0])) return k;
+      seen.add(state.domains[k][0]);
+    }
+    return null;
+  };
+
+  const fail = (k: number) => {
+    failures[k]++;
+    steps++;
+    if (steps % PROGRESS_EVERY === 0) opts.onProgress?.(steps);
+  };
+
+  const search = (state: SearchState): SearchState | null => {
+    if (steps >= maxSteps) return null;
+    // Most constrained open slot first
+    let pick = -1;
+    for (let k = 0; k < slots.length; k++) {
+      const n = state.domains[k].length;
+      if (n > 1 && (pick < 0 || n < state.domains[pick].length)) pick = k;
+    }
+    if (pick < 0) return state;
+    const used = new Set(
+      state.domains.filter((d) => d.length === 1).map((d) => d[0]),
+    );
+    for (const word of state.domains[pick]) {
+      if (used.has(word)) continue;
+      const next: SearchState = {
+        masks: state.masks.slice(),
+        domains: state.domains.slice(),
+      };
+      next.domains[pick] = [word];
+      const failed = propagate(next, [pick]) ?? duplicateSlot(next);
+      if (failed != null) {
+        fail(failed);
+        if (failed !== pick) failures[pick]++;
+        continue;
+      }
+      const done = search(next);
+      if (done) return done;
+      if (steps >= maxSteps) return null;
+    }
+    return null;
+  };
+
+  const start = propagate(
+    initial,
+    slots.map((_, k) => k),
+  );
+  if (start != null) {
+    fail(start);
+    return { status: "unfillable", stuck: stuck(), steps };
+  }
+  const clash = duplicateSlot(initial);
+  if (clash != null) {
+    fail(clash);
+    return { status: "unfillable", stuck: stuck(), steps };
+  }
+  const solved = search(initial);
+  if (!solved) {
+    return {
+      status: steps >= maxSteps ? "gave-up" : "unfillable",
+      stuck: stuck(),
+      steps,
+    };
+  }
+
+  const letters = grid.map((c) => (c.isBlock ? "" : c.solution));
+  slots.forEach((s, k) => {
+    const word = solved.domains[k][0];
+    s.cells.forEach((i, p) => {
+      letters[i] = word[p];
+    });
+  });
+  return { status: "filled", letters, steps };
+}
@@ -0,0 +1,44 @@
+import {
+  type AutofillResult,
+  autofill,
+  parseWordList,
+  type WordList,
+  wordCount,
+} from "./autofill";
+import type { Cell } from "./puz";
+
+// Runs autofill off the main thread. The word list is sent once and kept
+// here; each fill request then only carries the grid.
+
+export type AutofillRequest =
+  | { type: "words"; text: string }
+  | {
+      type: "fill";
+      grid: Cell[];
+      width: number;
+      height: number;
+      minScore?: number;
+    };
+
+export type AutofillResponse =
+  | { type: "words"; count: number }
+  | { type: "progress"; steps: number }
+  | { type: "result"; result: AutofillResult };
+
+let words: WordList = new Map();
+
+const reply = (msg: AutofillResponse) => self.postMessage(msg);
+
+self.addEventListener("message", (e: MessageEvent<AutofillRequest>) => {
+  const msg = e.data;
+  if (msg.type === "words") {
+    words = parseWordList(msg.text);
+    reply({ type: "words", count: wordCount(words) });
+  } else {
+    const result = autofill(msg.grid, msg.width, msg.height, words, {
+      minScore: msg.minScore,
+      onProgress: (steps) => reply({ type: "progress", steps }),
+    });
+    reply({ type: "result", result });
+  }
+});
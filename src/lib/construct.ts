@@ -0,0 +1,150 @@
+import type { Direction } from "./game";
+import {
+  buildEntries,
+  type Cell,
+  type ClueEntry,
+  clueSlots,
+  type ParsedPuz,
+} from "./puz";
+
+// Puzzle drafts for construct mode. A draft is plain data (blocks, letters,
+// clue text) and every derived view (numbering, entries, the playable puzzle)
+// is recomputed from it with the same buildEntries the importers use.
+
+export type Draft = {
+  width: number;
+  height: number;
+  title: string;
+  author: string;
+  copyright: string;
+  blocks: boolean[];
+  letters: string[]; // "" for a square not filled in yet
+  // Clue text keyed by entry (see clueKey), so clues follow their answer when
+  // blocks elsewhere renumber the grid
+  clues: Record<string, string>;
+};
+
+export const MIN_DRAFT_SIZE = 3;
+export const MAX_DRAFT_SIZE = 25;
+
+export function newDraft(width: number, height: number): Draft {
+  const size = width * height;
+  return {
+    width,
+    height,
+    title: "",
+    author: "",
+    copyright: "",
+    blocks: new Array(size).fill(false),
+    letters: new Array(size).fill(""),
+    clues: {},
+  };
+}
+
+// An entry is identified by its direction and first square
+export function clueKey(dir: Direction, entry: ClueEntry): string {
+  return `${dir}:${entry.cells[0].index}`;
+}
+
+export function draftGrid(draft: Draft): Cell[] {
+  return draft.blocks.map((isBlock, i) => ({
+    row: Math.floor(i / draft.width),
+    col: i % draft.width,
+    index: i,
+    isBlock,
+    solution: isBlock ? "." : draft.letters[i],
+  }));
+}
+
+export function draftEntries(draft: Draft): {
+  across: ClueEntry[];
+  down: ClueEntry[];
+} {
+  const { across, down } = buildEntries(
+    draftGrid(draft),
+    draft.width,
+    draft.height,
+  );
+  const withClues = (dir: Direction, list: ClueEntry[]) =>
+    list.map((e) => ({ ...e, clue: draft.clues[clueKey(dir, e)] ?? "" }));
+  return {
+    across: withClues("across", across),
+    down: withClues("down", down),
+  };
+}
+
+// With rotational symmetry the square's 180° partner flips along with it
+export function toggleBlock(
+  draft: Draft,
+  index: number,
+  symmetric: boolean,
+): Draft {
+  const blocks = draft.blocks.slice();
+  const letters = draft.letters.slice();
+  const value = !blocks[index];
+  const targets = symmetric ? [index, blocks.length - 1 - index] : [index];
+  for (const i of targets) {
+    blocks[i] = value;
+    if (value) letters[i] = "";
+  }
+  return { ...draft, blocks, letters };
+}
+
+export function setLetter(draft: Draft, index: number, value: string): Draft {
+  if (draft.blocks[index]) return draft;
+  const letters = draft.letters.slice();
+  letters[index] = value.toUpperCase().replace(/[^A-Z]/g, "");
+  return { ...draft, letters };
+}
+
+export function setClue(draft: Draft, key: string, text: string): Draft {
+  return { ...draft, clues: { ...draft.clues, [key]: text } };
+}
+
+// Why the draft can't be exported yet; missing clues are only worth a warning
+export function draftProblems(draft: Draft): {
+  errors: string[];
+  warnings: string[];
+} {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const empty = draft.letters.filter((l, i) => !draft.blocks[i] && !l).length;
+  if (empty) {
+    errors.push(`${empty} square${empty === 1 ? "" : "s"} still empty`);
+  }
+  const { across, down } = draftEntries(draft);
+  const covered = new Set(
+    [...across, ...down].flatMap((e) => e.cells.map((c) => c.index)),
+  );
+  const orphans = draft.blocks.filter((b, i) => !b && !covered.has(i)).length;
+  if (orphans) {
+    errors.push(
+      `${orphans} square${orphans === 1 ? " is" : "s are"} not part of any answer`,
+    );
+  }
+  const missing = [...across, ...down].filter((e) => !e.clue.trim()).length;
+  if (missing) {
+    warnings.push(`${missing} clue${missing === 1 ? "" : "s"} not written`);
+  }
+  return { errors, warnings };
+}
+
+// The draft as a playable puzzle, ready for writePuz or the game
+export function draftToPuz(draft: Draft): ParsedPuz {
+  const { across, down } = draftEntries(draft);
+  return {
+    width: draft.width,
+    height: draft.height,
+    title: draft.title,
+    author: draft.author,
+    copyright: draft.copyright,
+    grid: draftGrid(draft),
+    cluesRaw: clueSlots(across, down, "interleaved-ad").map((e) => e.clue),
+    across,
+    down,
+    clueOrder: "interleaved-ad",
+    clueOrderConfidence: 1,
+    checksums: { ok: true, mismatches: [] },
+    format: "puz",
+  };
+}
@@ -0,0 +1,60 @@
+import type { ClueRef, GameState } from "./game";
+import type { ParsedPuz } from "./puz";
+import { gameSummary } from "./summary";
+
+// The spectator display (/display) mirrors the game. A tab on the same machine
+// gets it over a BroadcastChannel from the tab running the game; in a
+// networked room it watches the room instead (see the "watch" message).
+
+export type DisplayMessage =
+  | { type: "hello" } // a display opened and wants the current state
+  | { type: "state"; state: GameState };
+
+const CHANNEL_NAME = "team-crossword-display";
+
+// Null where BroadcastChannel isn't available (old browsers, server render)
+export function openDisplayChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+  return new BroadcastChannel(CHANNEL_NAME);
+}
+
+export function displayUrl(roomCode: string | null): string {
+  return roomCode ? `/display?room=${roomCode}` : "/display";
+}
+
+// m:ss, rounding up so a countdown shows 0:00 only once time is out
+export function formatClock(ms: number): string {
+  const total = Math.ceil(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+export function clueName(puz: ParsedPuz, clue: ClueRef): string {
+  return `${puz[clue.dir][clue.index]?.number ?? "?"} ${clue.dir === "across" ? "Across" : "Down"}`;
+}
+
+// One line on whose move it is, shared by the game screen and the display
+export function turnStatusText(state: GameState, isHost: boolean): string {
+  const { puz, claimed } = state;
+  if (!puz) return "";
+  const teamName = (id: number | null) =>
+    state.teams.find((t) => t.id === id)?.name ?? "?";
+  if (state.finished) {
+    const winners = gameSummary(state).winners;
+    if (winners.length !== 1) return "Puzzle complete!";
+    return `${teamName(winners[0])} wins!`;
+  }
+  if (state.clock.paused) return "Paused";
+  if (state.settings.mode === "buzzer") {
+    if (!claimed) {
+      return isHost ? "Pick a clue to open" : "Waiting for the next clue";
+    }
+    if (state.currentTeamId == null) {
+      return `Buzz in for ${clueName(puz, claimed)}!`;
+    }
+    return `${teamName(state.currentTeamId)} is answering ${clueName(puz, claimed)}`;
+  }
+  if (state.steal) {
+    return `${teamName(state.currentTeamId)} can steal ${clueName(puz, state.steal.clue)}!`;
+  }
+  return `${teamName(state.currentTeamId)}'s turn`;
+}
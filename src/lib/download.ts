@@ -0,0 +1,20 @@
+// Saves generated files (exports) through a temporary object URL.
+
+export function downloadFile(
+  name: string,
+  data: BlobPart,
+  type = "application/octet-stream",
+): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// A file name from a puzzle title, e.g. "Monday Mini!" -> "Monday Mini.puz"
+export function fileNameFor(title: string, ext: string): string {
+  const base = title.replace(/[^\w\- ]+/g, "").trim() || "puzzle";
+  return `${base}${ext}`;
+}
@@ -0,0 +1,206 @@
+import type { CellStatus, ClueRef, GameAction, GameState, Team } from "./game";
+import type { ParsedPuz } from "./puz";
+import { scoreBreakdown, totalScore } from "./scoring";
+
+// The game's event log: every letter typed, check, reveal, turn change and
+// score change, in order. The engine appends to it on each move (see
+// gameReducer) and never rewrites it, so undone moves stay on the record as
+// the moves that undid them. The log alone is enough to replay a game.
+
+export type GameEvent = {
+  atMs: number; // game time
+  teamId: number | null; // team on turn when it happened; for "score", the team scoring
+  cause: GameAction["type"]; // the action behind it
+} & (
+  | { type: "start"; cells: string[]; owners: Array<number | null> }
+  | { type: "letter"; index: number; value: string; owner: number | null }
+  | { type: "reveal"; index: number; value: string } // filled in by a hint
+  | { type: "check"; cells: Array<[number, CellStatus]> } // squares graded
+  | { type: "clue"; clue: ClueRef } // clue shown to the players
+  | { type: "turn"; to: number | null }
+  | { type: "score"; points: number; total: number }
+  | { type: "end" }
+);
+
+export type GameEventType = GameEvent["type"];
+
+// An exported log: what the replay viewer needs to redraw the game
+export type GameLog = {
+  version: 1;
+  puz: ParsedPuz;
+  teams: Team[];
+  events: GameEvent[];
+};
+
+function scores(state: GameState): Map<number, number> {
+  const map = new Map<number, number>();
+  for (const [id, b] of scoreBreakdown(state, state.settings.scoring)) {
+    map.set(id, totalScore(b));
+  }
+  return map;
+}
+
+// Events for the move from `prev` to `next`, made by `cause` at game time atMs
+export function eventsFor(
+  prev: GameState,
+  next: GameState,
+  cause: GameAction["type"],
+  atMs: number,
+): GameEvent[] {
+  // Loading or restoring replaces the game, log and all
+  if (!next.started || cause === "load" || cause === "restore") return [];
+  const teamId = prev.currentTeamId;
+  const base = { atMs, teamId, cause };
+  if (!prev.started) {
+    return [
+      { ...base, type: "start", cells: next.cells, owners: next.owners },
+      { ...base, type: "turn", to: next.currentTeamId },
+    ];
+  }
+  const events: GameEvent[] = [];
+  const cleared = new Set<number>();
+  next.cells.forEach((value, index) => {
+    if (
+      value === prev.cells[index] &&
+      next.owners[index] === prev.owners[index]
+    ) {
+      return;
+    }
+    if (next.revealedCells[index] && !prev.revealedCells[index]) {
+      events.push({ ...base, type: "reveal", index, value });
+      return;
+    }
+    if (!value) cleared.add(index);
+    events.push({
+      ...base,
+      type: "letter",
+      index,
+      value,
+      owner: next.owners[index],
+    });
+  });
+  // Deleting a letter resets its square, which the replay does by itself
+  const graded: Array<[number, CellStatus]> = [];
+  next.status.forEach((s, i) => {
+    if (s === prev.status[i]) return;
+    if (!(cleared.has(i) && s === "unchecked")) graded.push([i, s]);
+  });
+  if (graded.length) events.push({ ...base, type: "check", cells: graded });
+  for (const dir of ["across", "down"] as const) {
+    const key = dir === "across" ? "revealedAcross" : "revealedDown";
+    next[key].forEach((shown, index) => {
+      if (shown && !prev[key][index]) {
+        events.push({ ...base, type: "clue", clue: { dir, index } });
+      }
+    });
+  }
+  if (next.currentTeamId !== prev.currentTeamId) {
+    events.push({ ...base, type: "turn", to: next.currentTeamId });
+  }
+  const before = scores(prev);
+  for (const [id, total] of scores(next)) {
+    const points = total - (before.get(id) ?? 0);
+    if (points) {
+      events.push({ ...base, teamId: id, type: "score", points, total });
+    }
+  }
+  if (next.finished && !prev.finished) events.push({ ...base, type: "end" });
+  return events;
+}
+
+export function gameLog(state: GameState): GameLog | null {
+  // Games saved before the log existed have no start to replay from
+  if (!state.puz || state.events[0]?.type !== "start") return null;
+  return {
+    version: 1,
+    puz: state.puz,
+    teams: state.teams,
+    events: state.events,
+  };
+}
+
+export function replayUrl(roomCode: string | null): string {
+  return roomCode ? `/replay?room=${roomCode}` : "/replay";
+}
+
+export function parseGameLog(text: string): GameLog {
+  let data: Partial<GameLog>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid game log: not valid JSON");
+  }
+  if (data?.version !== 1) {
+    throw new Error("Invalid game log: unknown version");
+  }
+  const { puz, teams, events } = data;
+  if (!puz || !Array.isArray(puz.grid) || !Array.isArray(teams)) {
+    throw new Error("Invalid game log: missing puzzle or teams");
+  }
+  if (!Array.isArray(events) || events[0]?.type !== "start") {
+    throw new Error("Invalid game log: events don't start with the game");
+  }
+  return { version: 1, puz, teams, events };
+}
+
+// The game as it stood after the first `count` events of `log`
+export type ReplayFrame = {
+  cells: string[];
+  status: CellStatus[];
+  owners: Array<number | null>;
+  revealedCells: boolean[];
+  currentTeamId: number | null;
+  scores: Map<number, number>;
+  atMs: number;
+  finished: boolean;
+};
+
+export function replayFrame(log: GameLog, count: number): ReplayFrame {
+  const size = log.puz.grid.length;
+  const frame: ReplayFrame = {
+    cells: new Array(size).fill(""),
+    status: new Array(size).fill("unchecked"),
+    owners: new Array(size).fill(null),
+    revealedCells: new Array(size).fill(false),
+    currentTeamId: null,
+    scores: new Map(log.teams.map((t) => [t.id, 0])),
+    atMs: 0,
+    finished: false,
+  };
+  for (const event of log.events.slice(0, count)) {
+    frame.atMs = event.atMs;
+    switch (event.type) {
+      case "start":
+        frame.cells = event.cells.slice();
+        frame.owners = event.owners.slice();
+        break;
+      case "letter":
+        frame.cells[event.index] = event.value;
+        frame.owners[event.index] = event.owner;
+        frame.revealedCells[event.index] = false;
+        if (!event.value) frame.status[event.index] = "unchecked";
+        break;
+      case "reveal":
+        frame.cells[event.index] = event.value;
+        frame.owners[event.index] = null;
+        frame.revealedCells[event.index] = true;
+        break;
+      case "check":
+        for (const [i, s] of event.cells) {
+          frame.status[i] = s;
+          if (s !== "correct") frame.revealedCells[i] = false;
+        }
+        break;
+      case "turn":
+        frame.currentTeamId = event.to;
+        break;
+      case "score":
+        if (event.teamId != null) frame.scores.set(event.teamId, event.total);
+        break;
+      case "end":
+        frame.finished = true;
+        break;
+    }
+  }
+  return frame;
+}
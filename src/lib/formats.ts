@@ -0,0 +1,58 @@
+import { looksLikeIpuz, parseIpuz } from "./ipuz";
+import { looksLikeJpz, parseJpz } from "./jpz";
+import { type ParsedPuz, parsePuz } from "./puz";
+import { looksLikeAcrossLiteText, parseAcrossLiteText } from "./txt";
+import { looksLikeXd, parseXd } from "./xd";
+
+// Single entry point for uploaded or pasted puzzles: picks a parser from the
+// file extension, falling back to sniffing the contents.
+
+export const PUZZLE_EXTENSIONS = [".puz", ".ipuz", ".jpz", ".txt", ".xd"];
+
+// For <input type="file" accept>
+export const PUZZLE_ACCEPT = [
+  ...PUZZLE_EXTENSIONS,
+  "application/octet-stream",
+  "application/json",
+  "application/xml",
+  "application/zip",
+  "text/plain",
+].join(",");
+
+export function isPuzzleFileName(name: string): boolean {
+  const lower = name.toLowerCase();
+  return PUZZLE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+const PUZ_MAGIC = "ACROSS&DOWN";
+
+const isPuz = (bytes: Uint8Array) =>
+  new TextDecoder("latin1").decode(bytes.subarray(0x02, 0x0d)) === PUZ_MAGIC;
+
+// Async because zipped .jpz files are inflated with DecompressionStream
+export async function parsePuzzleFile(
+  name: string,
+  buf: ArrayBuffer,
+): Promise<ParsedPuz> {
+  const lower = name.toLowerCase();
+  const bytes = new Uint8Array(buf);
+  const text = () => new TextDecoder("utf-8").decode(bytes);
+  if (lower.endsWith(".puz")) return parsePuz(buf);
+  if (lower.endsWith(".ipuz")) return parseIpuz(text());
+  if (lower.endsWith(".jpz")) return parseJpz(buf);
+  if (lower.endsWith(".txt")) return parseAcrossLiteText(text());
+  if (lower.endsWith(".xd")) return parseXd(text());
+  if (isPuz(bytes)) return parsePuz(buf);
+  if (looksLikeJpz(bytes)) return parseJpz(buf);
+  return parsePuzzleText(text());
+}
+
+// Text pasted into the page: Across Lite text, .xd or ipuz JSON
+export function parsePuzzleText(text: string): ParsedPuz {
+  if (looksLikeAcrossLiteText(text)) return parseAcrossLiteText(text);
+  if (looksLikeIpuz(text)) return parseIpuz(text);
+  if (looksLikeXd(text)) return parseXd(text);
+  throw new Error(
+    `Unrecognized puzzle format (expected ${PUZZLE_EXTENSIONS.join(", ")})`,
+  );
+}
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import { parsePuzzleText } from "./formats";
+import {
+  type GameAction,
+  type GameSettings,
+  type GameState,
+  gameReducer,
+  initialGameState,
+} from "./game";
+
+// 1 Across ABC over 4 Across DEF; Downs AD, BE, CF
+const PUZZLE = `Title: Test
+
+
+ABC
+DEF
+
+
+A1. First ~ ABC
+A4. Second ~ DEF
+
+D1. Third ~ AD
+D2. Fourth ~ BE
+D3. Fifth ~ CF
+`;
+
+const across = (index: number) => ({ dir: "across" as const, index });
+
+function play(settings: Partial<GameSettings>, actions: GameAction[]) {
+  const setup: GameAction[] = [
+    { type: "load", puz: parsePuzzleText(PUZZLE) },
+    { type: "addTeam", name: "One", color: "#f00" },
+    { type: "addTeam", name: "Two", color: "#00f" },
+    { type: "selectTeam", id: 1 },
+    { type: "configure", settings },
+    { type: "start" },
+  ];
+  return [...setup, ...actions].reduce<GameState>(
+    (state, action) => gameReducer(state, { at: 1000, ...action }),
+    initialGameState(),
+  );
+}
+
+const type = (word: string, from = 0): GameAction[] =>
+  [...word].map((value, i) => ({ type: "input", index: from + i, value }));
+
+describe("missed answers", () => {
+  it("don't lock in the right letters of a wrong buzzed answer", () => {
+    const start = play({ mode: "buzzer" }, []);
+    const [one] = start.teams;
+    const state = play({ mode: "buzzer" }, [
+      { type: "openClue", clue: across(0) },
+      { type: "buzz", teamId: one.id },
+      ...type("ABX"),
+      { type: "check" },
+    ]);
+    expect(state.status.slice(0, 3)).toEqual([
+      "unchecked",
+      "unchecked",
+      "unchecked",
+    ]);
+    expect(state.owners.slice(0, 3)).toEqual([null, null, null]);
+    expect(state.cells.slice(0, 3)).toEqual(["", "", ""]);
+    expect(state.lockedOut).toEqual([one.id]);
+    expect(state.wrongGuesses[one.id]).toBe(1);
+  });
+
+  it("don't lock in the right letters of a wrong submitted entry", () => {
+    const state = play({ checkScope: "entry" }, [
+      { type: "claim", clue: across(0) },
+      ...type("AXC"),
+      { type: "check" },
+    ]);
+    expect(state.status.slice(0, 3).every((s) => s === "unchecked")).toBe(true);
+    expect(state.owners.slice(0, 3)).toEqual([null, null, null]);
+    expect(state.currentTeamId).toBe(state.teams[1].id);
+  });
+
+  it("keep squares solved before the miss", () => {
+    const state = play({ checkScope: "entry" }, [
+      { type: "claim", clue: { dir: "down", index: 0 } },
+      ...type("A"),
+      { type: "input", index: 3, value: "D" },
+      { type: "check" },
+      { type: "claim", clue: across(0) },
+      ...type("XC", 1),
+      { type: "check" },
+    ]);
+    expect(state.status.slice(0, 3)).toEqual([
+      "correct",
+      "unchecked",
+      "unchecked",
+    ]);
+    expect(state.cells.slice(0, 3)).toEqual(["A", "", ""]);
+  });
+
+  it("don't credit the stealing team's right letters when the steal fails", () => {
+    const state = play({ checkScope: "entry", stealSeconds: 10 }, [
+      { type: "claim", clue: across(0) },
+      ...type("AXC"),
+      { type: "check" },
+      ...type("ABX"),
+      { type: "check" },
+    ]);
+    expect(state.steal).toBeNull();
+    expect(state.status.slice(0, 3).every((s) => s === "unchecked")).toBe(true);
+    expect(state.owners.slice(0, 3)).toEqual([null, null, null]);
+  });
+
+  it("still lock in a right answer", () => {
+    const state = play({ checkScope: "entry" }, [
+      { type: "claim", clue: across(0) },
+      ...type("ABC"),
+      { type: "check" },
+    ]);
+    expect(state.status.slice(0, 3).every((s) => s === "correct")).toBe(true);
+    expect(state.owners.slice(0, 3)).toEqual(Array(3).fill(state.teams[0].id));
+  });
+});
+
+describe("undo", () => {
+  it("takes back the team's own letters", () => {
+    const state = play({}, [
+      { type: "claim", clue: across(0) },
+      ...type("AB"),
+      { type: "undo" },
+    ]);
+    expect(state.cells.slice(0, 2)).toEqual(["A", ""]);
+  });
+
+  it("keeps buzzes made after the letter it takes back", () => {
+    const state = play({ mode: "buzzer" }, [
+      { type: "openClue", clue: across(0) },
+      { type: "buzz", teamId: 1 },
+      ...type("A"),
+      { type: "buzz", teamId: 2 },
+      { type: "undo" },
+    ]);
+    expect(state.cells[0]).toBe("");
+    expect(state.currentTeamId).toBe(1);
+    expect(state.buzzQueue).toEqual([2]);
+  });
+
+  it("can't reopen a game the host ended, even when everything may be undone", () => {
+    const ended = play({ undo: "all" }, [
+      { type: "claim", clue: across(0) },
+      ...type("AB"),
+      { type: "endGame" },
+    ]);
+    expect(gameReducer(ended, { type: "undo" })).toBe(ended);
+  });
+});
+
+describe("host moderation", () => {
+  it("won't adjust a score without a reason", () => {
+    const start = play({}, []);
+    const adjust = (reason: string) =>
+      gameReducer(start, { type: "adjustScore", teamId: 1, points: 3, reason });
+    expect(adjust("  ")).toBe(start);
+    expect(adjust("Disputed clue").adjustments).toEqual({ 1: 3 });
+  });
+});
+
+describe("ending the game", () => {
+  it("can't be undone by reopening a square", () => {
+    const ended = play({}, [
+      { type: "claim", clue: across(0) },
+      ...type("ABC"),
+      { type: "check" },
+      { type: "endGame" },
+    ]);
+    expect(ended.finished).toBe(true);
+    expect(gameReducer(ended, { type: "reopenCell", index: 0 })).toBe(ended);
+  });
+});
+
+describe("host log", () => {
+  it("keeps the setup made before the start", () => {
+    const state = play({ mode: "buzzer" }, []);
+    // The settings from play() arrive after the teams, as one change
+    expect(state.hostLog).toEqual([
+      {
+        action: { type: "configure", settings: { mode: "buzzer" } },
+        atMs: 0,
+        teamId: 1,
+      },
+    ]);
+    const twice = [
+      { type: "configure", settings: { turnSeconds: 30 } },
+      { type: "configure", settings: { turnSeconds: 60, speedBonus: true } },
+    ] satisfies GameAction[];
+    const [entry] = twice.reduce(gameReducer, initialGameState()).hostLog;
+    expect(entry.action).toEqual({
+      type: "configure",
+      settings: { turnSeconds: 60, speedBonus: true },
+    });
+  });
+
+  it("keeps opened clues and clue order changes", () => {
+    const state = play({ mode: "buzzer" }, [
+      { type: "openClue", clue: across(0) },
+      { type: "setClueOrder", order: "across-down" },
+    ]);
+    expect(state.hostLog.map((e) => e.action.type)).toEqual([
+      "configure",
+      "openClue",
+      "setClueOrder",
+    ]);
+  });
+});
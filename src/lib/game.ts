@@ -0,0 +1,1173 @@
+import { eventsFor, type GameEvent } from "./events";
+import {
+  assignClues,
+  type ClueEntry,
+  type ClueOrder,
+  type ParsedPuz,
+} from "./puz";
+import {
+  SCORING_PRESETS,
+  type ScoringRules,
+  scoreBreakdown,
+  totalScore,
+} from "./scoring";
+
+export type Team = {
+  id: number;
+  name: string;
+  color: string; // hex
+};
+
+export type CellStatus = "unchecked" | "correct" | "incorrect";
+
+export type Direction = "across" | "down";
+
+export type ClueRef = {
+  dir: Direction;
+  index: number; // index into puz.across / puz.down
+};
+
+// "board" grades every filled cell at once; "entry" has the active team claim a
+// single clue, type only inside it, and submit just that answer.
+export type CheckScope = "board" | "entry";
+
+// What a team may take back: nothing, its ungraded letters (history stops at
+// the last check or clue reveal), or anything including checks and reveals.
+export type UndoPolicy = "off" | "edits" | "all";
+
+// "turns": teams take turns in order. "buzzer": the host opens a clue for
+// everyone and the first team to buzz in answers it.
+export type GameMode = "turns" | "buzzer";
+
+export type GameSettings = {
+  mode: GameMode;
+  checkScope: CheckScope;
+  undo: UndoPolicy;
+  turnSeconds: number | null; // shot clock per turn; null for none
+  speedBonus: boolean; // extra points for answers solved early in a turn
+  scoring: ScoringRules;
+  hintCosts: HintCosts;
+  stealSeconds: number | null; // steal window after a missed answer; null for no steals
+  hideClues: boolean; // clue text stays hidden until the clue is claimed
+};
+
+export type Buzz = {
+  clue: ClueRef;
+  teamId: number;
+  atMs: number; // game time
+};
+
+// After a team misses its claimed answer, the next team gets a short window to
+// answer that same entry, and only that one, before its own turn begins.
+export type Steal = {
+  clue: ClueRef;
+  fromTeamId: number | null; // the team that missed it
+};
+
+// Points a hint costs the team that asks for it
+export type HintCosts = {
+  letter: number; // reveal one square
+  word: number; // reveal a whole answer
+  check: number; // grade one answer without ending the turn
+};
+
+export type HintUsage = {
+  letters: number;
+  words: number;
+  checks: number;
+  points: number; // total cost, at the prices when each hint was used
+};
+
+// Game time excludes pauses. While running it is elapsedMs plus the wall time
+// since runningSince; the turn clock counts from turnStartedMs of game time.
+export type GameClock = {
+  elapsedMs: number;
+  runningSince: number | null; // epoch ms; null when not running
+  turnStartedMs: number;
+  paused: boolean;
+};
+
+// Board fields a history entry can change, stored as [index, before, after]
+const BOARD_ARRAYS = [
+  "cells",
+  "status",
+  "owners",
+  "revealedAcross",
+  "revealedDown",
+  "revealedCells",
+] as const;
+
+type BoardArray = (typeof BOARD_ARRAYS)[number];
+
+type TurnFields = Pick<
+  GameState,
+  | "currentTeamId"
+  | "claimed"
+  | "finished"
+  | "bonuses"
+  | "wrongGuesses"
+  | "hints"
+  | "steal"
+  | "stolen"
+  | "buzzQueue"
+  | "lockedOut"
+>;
+
+export type HistoryKind = "edit" | "check" | "reveal";
+
+export type HistoryEntry = {
+  kind: HistoryKind;
+  teamId: number | null; // whose move it was
+  changes: {
+    [K in BoardArray]?: Array<
+      [number, GameState[K][number], GameState[K][number]]
+    >;
+  };
+  before: TurnFields;
+  after: TurnFields;
+};
+
+// Oldest moves fall off past this; undo is for slips, not rewinding a game
+export const HISTORY_LIMIT = 100;
+
+// Everything that describes a game in progress. Kept as plain JSON so it can be
+// stored, sent over the wire, or replayed without any React involvement.
+export type GameState = {
+  puz: ParsedPuz | null;
+  cells: string[]; // user-entered letters per cell, length width*height
+  status: CellStatus[];
+  owners: Array<number | null>; // which team entered the cell
+  revealedAcross: boolean[];
+  revealedDown: boolean[];
+  revealedCells: boolean[]; // squares filled in by a hint; no team owns them
+  teams: Team[];
+  nextTeamId: number;
+  started: boolean;
+  finished: boolean;
+  // Before start this is simply the highlighted team; after start it is the
+  // team whose turn it is and the only one allowed to type.
+  currentTeamId: number | null;
+  claimed: ClueRef | null; // clue the current team revealed this turn
+  settings: GameSettings;
+  history: HistoryEntry[]; // board moves, oldest first
+  future: HistoryEntry[]; // undone moves, next redo last
+  clock: GameClock;
+  bonuses: Record<number, number>; // speed bonus points by team id
+  wrongGuesses: Record<number, number>; // letters graded wrong by team id
+  hints: Record<number, HintUsage>; // by team id
+  steal: Steal | null;
+  stolen: Record<number, number>; // answers stolen by team id
+  // Buzzer mode: `claimed` is the open clue and currentTeamId the team
+  // answering it, or null while everyone may buzz
+  buzzQueue: number[]; // teams that buzzed after the one answering
+  lockedOut: number[]; // teams that missed the open clue
+  buzzes: Buzz[]; // every buzz this game, in order
+  adjustments: Record<number, number>; // host score corrections by team id
+  hostLog: HostLogEntry[]; // setup and moderation, oldest first
+  events: GameEvent[]; // everything that happened since Start; see events.ts
+};
+
+// Longest answer a single (rebus) square will accept.
+export const MAX_CELL_LENGTH = 10;
+
+// Actions may carry `at`, the epoch ms they happened, which drives the game
+// and turn clocks. Local play stamps Date.now(); the room server overwrites it
+// with its own clock so every player's times agree.
+export type GameAction = { at?: number } & (
+  | { type: "load"; puz: ParsedPuz }
+  | { type: "restore"; state: GameState }
+  | { type: "setClueOrder"; order: ClueOrder }
+  | { type: "addTeam"; name: string; color: string }
+  | { type: "updateTeam"; id: number; changes: Partial<Omit<Team, "id">> }
+  | { type: "selectTeam"; id: number }
+  | { type: "configure"; settings: Partial<GameSettings> }
+  | { type: "start" }
+  | { type: "claim"; clue: ClueRef }
+  | { type: "input"; index: number; value: string }
+  | { type: "clear"; index: number }
+  | { type: "check" }
+  | { type: "revealLetter"; index: number }
+  | { type: "revealWord"; clue: ClueRef }
+  | { type: "checkWord"; clue: ClueRef }
+  | { type: "openClue"; clue: ClueRef }
+  | { type: "buzz"; teamId: number }
+  // Host moderation
+  | { type: "skipTurn" }
+  | { type: "adjustScore"; teamId: number; points: number; reason: string }
+  | { type: "reopenCell"; index: number }
+  | { type: "endGame" }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "pause" }
+  | { type: "resume" }
+  // Passes the turn if the shot clock has run out at `at`; otherwise a no-op
+  | { type: "expire" }
+);
+
+// Host actions are kept in hostLog with the game time, from loading the puzzle
+// on; setup before the start is logged at 0:00
+const HOST_LOGGED = [
+  "setClueOrder",
+  "configure",
+  "openClue",
+  "pause",
+  "resume",
+  "skipTurn",
+  "adjustScore",
+  "reopenCell",
+  "endGame",
+] as const;
+
+export type HostAction = Extract<
+  GameAction,
+  { type: (typeof HOST_LOGGED)[number] }
+>;
+
+export type HostLogEntry = {
+  action: HostAction;
+  atMs: number; // game time
+  teamId: number | null; // team on turn at the time
+};
+
+const isHostLogged = (action: GameAction): action is HostAction =>
+  (HOST_LOGGED as readonly string[]).includes(action.type);
+
+// Speed bonus: up to this many points per answer, falling to nothing over the
+// shot clock (or SPEED_WINDOW_MS when there is none)
+export const SPEED_BONUS_POINTS = 5;
+const SPEED_WINDOW_MS = 60_000;
+
+const HISTORY_KINDS: Partial<Record<GameAction["type"], HistoryKind>> = {
+  input: "edit",
+  clear: "edit",
+  check: "check",
+  claim: "reveal",
+  revealLetter: "reveal",
+  revealWord: "reveal",
+  checkWord: "check",
+};
+
+export function defaultSettings(): GameSettings {
+  return {
+    mode: "turns",
+    checkScope: "board",
+    undo: "edits",
+    turnSeconds: null,
+    speedBonus: false,
+    scoring: SCORING_PRESETS.classic,
+    hintCosts: { letter: 2, word: 5, check: 1 },
+    stealSeconds: null,
+    hideClues: true,
+  };
+}
+
+export function initialGameState(): GameState {
+  return {
+    puz: null,
+    cells: [],
+    status: [],
+    owners: [],
+    revealedAcross: [],
+    revealedDown: [],
+    revealedCells: [],
+    teams: [],
+    nextTeamId: 1,
+    started: false,
+    finished: false,
+    currentTeamId: null,
+    claimed: null,
+    settings: defaultSettings(),
+    history: [],
+    future: [],
+    clock: {
+      elapsedMs: 0,
+      runningSince: null,
+      turnStartedMs: 0,
+      paused: false,
+    },
+    bonuses: {},
+    wrongGuesses: {},
+    hints: {},
+    steal: null,
+    stolen: {},
+    buzzQueue: [],
+    lockedOut: [],
+    buzzes: [],
+    adjustments: {},
+    hostLog: [],
+    events: [],
+  };
+}
+
+export function gameTime(clock: GameClock, now: number): number {
+  return (
+    clock.elapsedMs +
+    (clock.runningSince == null ? 0 : Math.max(0, now - clock.runningSince))
+  );
+}
+
+// Milliseconds left on the shot clock (or the steal window, during a steal),
+// or null when there isn't one running
+export function turnTimeLeft(state: GameState, now: number): number | null {
+  const seconds = state.steal
+    ? state.settings.stealSeconds
+    : state.settings.turnSeconds;
+  if (!seconds || !state.started || state.finished) return null;
+  if (state.currentTeamId == null) return null; // nobody has buzzed in yet
+  const used = gameTime(state.clock, now) - state.clock.turnStartedMs;
+  return Math.max(0, seconds * 1000 - used);
+}
+
+export function entryFor(puz: ParsedPuz, clue: ClueRef): ClueEntry | undefined {
+  return clue.dir === "across" ? puz.across[clue.index] : puz.down[clue.index];
+}
+
+export function isEntrySolved(
+  cells: { index: number }[],
+  status: CellStatus[],
+): boolean {
+  return cells.length > 0 && cells.every((c) => status[c.index] === "correct");
+}
+
+// The game ends once every Across and Down entry has been graded correct.
+export function isPuzzleSolved(puz: ParsedPuz, status: CellStatus[]): boolean {
+  return (
+    puz.across.every((e) => isEntrySolved(e.cells, status)) &&
+    puz.down.every((e) => isEntrySolved(e.cells, status))
+  );
+}
+
+// Team that plays after `id`, wrapping around the roster.
+export function teamAfter(teams: Team[], id: number | null): number | null {
+  if (teams.length === 0) return null;
+  const i = teams.findIndex((t) => t.id === id);
+  return teams[(i + 1) % teams.length].id;
+}
+
+// Totals under the game's scoring rules; see scoreBreakdown for the parts
+export function teamScores(state: GameState): Map<number, number> {
+  const map = new Map<number, number>();
+  for (const [id, breakdown] of scoreBreakdown(state, state.settings.scoring)) {
+    map.set(id, totalScore(breakdown));
+  }
+  return map; // teamId -> score
+}
+
+export function claimedEntry(state: GameState): ClueEntry | undefined {
+  if (!state.puz || !state.claimed) return undefined;
+  return entryFor(state.puz, state.claimed);
+}
+
+// Whether the current team may change the letter in cell `index`.
+export function canEditCell(state: GameState, index: number): boolean {
+  if (!state.puz || !state.started || state.finished) return false;
+  if (state.currentTeamId == null || state.clock.paused) return false;
+  const cell = state.puz.grid[index];
+  if (!cell || cell.isBlock || state.status[index] === "correct") return false;
+  if (onlyClaimed(state)) {
+    return !!claimedEntry(state)?.cells.some((c) => c.index === index);
+  }
+  return true;
+}
+
+// Whether play is confined to the claimed entry: in entry scope, during a
+// steal, and for whoever buzzed in
+function onlyClaimed(state: GameState): boolean {
+  return (
+    state.settings.checkScope === "entry" ||
+    state.settings.mode === "buzzer" ||
+    state.steal != null
+  );
+}
+
+// In entry scope the claim can only be swapped while nothing has been typed
+// into it, so a team can't peek at a clue, fill half of it, and move on.
+function canClaim(state: GameState, clue: ClueRef): boolean {
+  if (state.steal || state.settings.mode === "buzzer") return false;
+  if (state.settings.checkScope !== "entry") return true;
+  const current = claimedEntry(state);
+  if (!current || !state.claimed) return true;
+  if (state.claimed.dir === clue.dir && state.claimed.index === clue.index) {
+    return true;
+  }
+  return current.cells.every(
+    (c) => state.status[c.index] === "correct" || !state.cells[c.index],
+  );
+}
+
+function gradeCell(state: GameState, index: number): CellStatus {
+  const cell = state.puz?.grid[index];
+  const val = (state.cells[index] || "").toUpperCase();
+  if (!cell || cell.isBlock || !val) return "unchecked";
+  return val === cell.solution ? "correct" : "incorrect";
+}
+
+// Grades either the whole board or only the claimed entry, then applies the
+// turn rules: a team keeps control unless one of its own letters was wrong.
+function check(state: GameState, at: number): GameState {
+  const { puz } = state;
+  if (!puz || !state.started || state.finished || state.clock.paused) {
+    return state;
+  }
+  // A steal is judged on its entry alone, in either scope
+  if (state.settings.mode === "buzzer" && state.currentTeamId == null) {
+    return state;
+  }
+  const entryScope = onlyClaimed(state);
+  let graded: number[];
+  if (entryScope) {
+    const entry = claimedEntry(state);
+    if (!entry) return state;
+    // Only complete answers can be submitted
+    if (entry.cells.some((c) => !state.cells[c.index])) return state;
+    graded = entry.cells.map((c) => c.index);
+  } else {
+    graded = puz.grid.map((_, i) => i);
+  }
+  const status = state.status.slice();
+  for (const i of graded) status[i] = gradeCell(state, i);
+  // A submitted entry is judged as a whole, whoever typed its letters
+  const missed = graded.some(
+    (i) =>
+      status[i] === "incorrect" &&
+      (entryScope || state.owners[i] === state.currentTeamId),
+  );
+  // A missed answer keeps none of its letters, so the team that missed can't
+  // lock in (or score) the ones it happened to get right
+  const board =
+    entryScope && missed
+      ? clearAnswer(state, graded)
+      : { cells: state.cells, owners: state.owners, status };
+  const finished = isPuzzleSolved(puz, board.status);
+  const next: GameState = {
+    ...state,
+    ...board,
+    finished,
+    bonuses: speedBonuses(state, board.status, at),
+    wrongGuesses: countWrongGuesses(state, graded, status, entryScope),
+    claimed: null,
+  };
+  if (state.settings.mode === "buzzer") {
+    return missed && !finished
+      ? lockOut({ ...next, claimed: state.claimed })
+      : { ...next, currentTeamId: null, buzzQueue: [], lockedOut: [] };
+  }
+  if (state.steal) {
+    return endSteal(
+      next,
+      at,
+      graded.every((i) => status[i] === "correct"),
+    );
+  }
+  if (!missed || finished) return next;
+  const currentTeamId = teamAfter(state.teams, state.currentTeamId);
+  // Only a claimed answer the team got wrong can be stolen
+  const missedEntry = claimedEntry(state)?.cells.some(
+    (c) => status[c.index] === "incorrect",
+  );
+  if (!state.settings.stealSeconds || !missedEntry || !state.claimed) {
+    return { ...next, currentTeamId };
+  }
+  return {
+    ...next,
+    currentTeamId,
+    claimed: state.claimed,
+    steal: { clue: state.claimed, fromTeamId: state.currentTeamId },
+  };
+}
+
+// Empties the squares of a missed answer that weren't already solved
+function clearAnswer(
+  state: GameState,
+  indexes: number[],
+): Pick<GameState, "cells" | "owners" | "status"> {
+  const cells = state.cells.slice();
+  const owners = state.owners.slice();
+  const status = state.status.slice();
+  for (const i of indexes) {
+    if (status[i] === "correct") continue;
+    cells[i] = "";
+    owners[i] = null;
+    status[i] = "unchecked";
+  }
+  return { cells, owners, status };
+}
+
+// The answering team missed the open clue (or ran out of time): the next team
+// in the buzz queue answers, or everyone left may buzz. Once every team has
+// missed it, the clue closes.
+function lockOut(state: GameState): GameState {
+  const lockedOut =
+    state.currentTeamId == null
+      ? state.lockedOut
+      : [...state.lockedOut, state.currentTeamId];
+  if (state.teams.every((t) => lockedOut.includes(t.id))) {
+    return {
+      ...state,
+      currentTeamId: null,
+      claimed: null,
+      buzzQueue: [],
+      lockedOut: [],
+    };
+  }
+  return {
+    ...state,
+    currentTeamId: state.buzzQueue[0] ?? null,
+    buzzQueue: state.buzzQueue.slice(1),
+    lockedOut,
+  };
+}
+
+function buzz(state: GameState, teamId: number, at: number): GameState {
+  if (state.settings.mode !== "buzzer" || !state.claimed) return state;
+  if (!state.started || state.finished || state.clock.paused) return state;
+  if (!state.teams.some((t) => t.id === teamId)) return state;
+  if (
+    teamId === state.currentTeamId ||
+    state.buzzQueue.includes(teamId) ||
+    state.lockedOut.includes(teamId)
+  ) {
+    return state;
+  }
+  const buzzes = [
+    ...state.buzzes,
+    { clue: state.claimed, teamId, atMs: gameTime(state.clock, at) },
+  ];
+  if (state.currentTeamId == null) {
+    return { ...state, buzzes, currentTeamId: teamId };
+  }
+  return { ...state, buzzes, buzzQueue: [...state.buzzQueue, teamId] };
+}
+
+// The stealing team keeps the turn either way, now as a normal turn
+function endSteal(state: GameState, at: number, stolen: boolean): GameState {
+  const team = state.currentTeamId;
+  return {
+    ...state,
+    steal: null,
+    claimed: null,
+    stolen:
+      stolen && team != null
+        ? { ...state.stolen, [team]: (state.stolen[team] ?? 0) + 1 }
+        : state.stolen,
+    clock: { ...state.clock, turnStartedMs: gameTime(state.clock, at) },
+  };
+}
+
+// Hints are for the team on turn, and in entry scope only within its claim
+function hintEntry(state: GameState, clue: ClueRef): ClueEntry | undefined {
+  const { puz } = state;
+  if (!puz || !state.started || state.finished || state.clock.paused) {
+    return undefined;
+  }
+  if (state.currentTeamId == null || state.steal) return undefined;
+  if (
+    state.settings.checkScope === "entry" &&
+    (state.claimed?.dir !== clue.dir || state.claimed.index !== clue.index)
+  ) {
+    return undefined;
+  }
+  const entry = entryFor(puz, clue);
+  return entry && !isEntrySolved(entry.cells, state.status) ? entry : undefined;
+}
+
+function chargeHint(
+  state: GameState,
+  kind: "letters" | "words" | "checks",
+  cost: number,
+): Record<number, HintUsage> {
+  const team = state.currentTeamId;
+  if (team == null) return state.hints;
+  const usage = state.hints[team] ?? {
+    letters: 0,
+    words: 0,
+    checks: 0,
+    points: 0,
+  };
+  return {
+    ...state.hints,
+    [team]: { ...usage, [kind]: usage[kind] + 1, points: usage.points + cost },
+  };
+}
+
+// Fills squares with their answers. Revealed squares are graded correct but
+// belong to no team, so they never score.
+function reveal(
+  state: GameState,
+  indexes: number[],
+  kind: "letters" | "words",
+  cost: number,
+): GameState {
+  const { puz } = state;
+  if (!puz) return state;
+  const cells = state.cells.slice();
+  const status = state.status.slice();
+  const owners = state.owners.slice();
+  const revealedCells = state.revealedCells.slice();
+  for (const i of indexes) {
+    if (status[i] === "correct") continue;
+    cells[i] = puz.grid[i].solution;
+    status[i] = "correct";
+    owners[i] = null;
+    revealedCells[i] = true;
+  }
+  return {
+    ...state,
+    cells,
+    status,
+    owners,
+    revealedCells,
+    finished: isPuzzleSolved(puz, status),
+    hints: chargeHint(state, kind, cost),
+  };
+}
+
+// Grades one answer as a paid hint: wrong letters are marked, but they don't
+// count as wrong guesses and the turn stays put
+function checkWord(state: GameState, entry: ClueEntry): GameState {
+  const { puz } = state;
+  if (!puz) return state;
+  const status = state.status.slice();
+  for (const c of entry.cells) status[c.index] = gradeCell(state, c.index);
+  return {
+    ...state,
+    status,
+    finished: isPuzzleSolved(puz, status),
+    hints: chargeHint(state, "checks", state.settings.hintCosts.check),
+  };
+}
+
+// Letters newly graded wrong, charged to whoever typed them (or, when a
+// claimed entry is submitted as a whole, to the team that submitted it)
+function countWrongGuesses(
+  state: GameState,
+  graded: number[],
+  status: CellStatus[],
+  wholeEntry: boolean,
+): Record<number, number> {
+  const wrongGuesses = { ...state.wrongGuesses };
+  for (const i of graded) {
+    if (status[i] !== "incorrect" || state.status[i] === "incorrect") continue;
+    const team = wholeEntry ? state.currentTeamId : state.owners[i];
+    if (team != null) wrongGuesses[team] = (wrongGuesses[team] ?? 0) + 1;
+  }
+  return wrongGuesses;
+}
+
+// With speed bonuses on, each answer this check completes earns the team on
+// turn up to SPEED_BONUS_POINTS, less the sooner it came in the turn. Answers
+// count only if the team typed at least one of the newly correct letters.
+function speedBonuses(
+  state: GameState,
+  status: CellStatus[],
+  at: number,
+): Record<number, number> {
+  const { puz, currentTeamId } = state;
+  if (!puz || !state.settings.speedBonus || currentTeamId == null) {
+    return state.bonuses;
+  }
+  const window = (state.settings.turnSeconds ?? 0) * 1000 || SPEED_WINDOW_MS;
+  const used = gameTime(state.clock, at) - state.clock.turnStartedMs;
+  if (used >= window) return state.bonuses;
+  const points = Math.ceil(SPEED_BONUS_POINTS * (1 - used / window));
+  const answers = [...puz.across, ...puz.down].filter(
+    (e) =>
+      !isEntrySolved(e.cells, state.status) &&
+      isEntrySolved(e.cells, status) &&
+      e.cells.some(
+        (c) =>
+          state.status[c.index] !== "correct" &&
+          state.owners[c.index] === currentTeamId,
+      ),
+  ).length;
+  if (!answers) return state.bonuses;
+  return {
+    ...state.bonuses,
+    [currentTeamId]: (state.bonuses[currentTeamId] ?? 0) + answers * points,
+  };
+}
+
+// Undo is only ever for the team on turn, and under "edits" stops at the last
+// graded check or revealed clue. A finished game stays over under any policy.
+function mayReplay(state: GameState, entry: HistoryEntry | undefined): boolean {
+  const policy = state.settings.undo;
+  if (!entry || !state.started || state.finished || state.clock.paused) {
+    return false;
+  }
+  if (policy === "off") return false;
+  if (policy === "all") return true;
+  return entry.kind === "edit" && entry.teamId === state.currentTeamId;
+}
+
+export function canUndo(state: GameState): boolean {
+  return mayReplay(state, state.history[state.history.length - 1]);
+}
+
+export function canRedo(state: GameState): boolean {
+  return mayReplay(state, state.future[state.future.length - 1]);
+}
+
+const turnFields = (state: GameState): TurnFields => ({
+  currentTeamId: state.currentTeamId,
+  claimed: state.claimed,
+  finished: state.finished,
+  bonuses: state.bonuses,
+  wrongGuesses: state.wrongGuesses,
+  hints: state.hints,
+  steal: state.steal,
+  stolen: state.stolen,
+  buzzQueue: state.buzzQueue,
+  lockedOut: state.lockedOut,
+});
+
+function record(
+  prev: GameState,
+  next: GameState,
+  kind: HistoryKind,
+): GameState {
+  const changes: Record<string, Array<[number, unknown, unknown]>> = {};
+  for (const key of BOARD_ARRAYS) {
+    const before: unknown[] = prev[key];
+    const diff: Array<[number, unknown, unknown]> = [];
+    next[key].forEach((v, i) => {
+      if (before[i] !== v) diff.push([i, before[i], v]);
+    });
+    if (diff.length) changes[key] = diff;
+  }
+  const entry: HistoryEntry = {
+    kind,
+    teamId: prev.currentTeamId,
+    changes: changes as HistoryEntry["changes"],
+    before: turnFields(prev),
+    after: turnFields(next),
+  };
+  return {
+    ...next,
+    history: [...prev.history, entry].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+// Puts the board back to how it was before (side 1) or after (side 2) `entry`
+function replay(state: GameState, entry: HistoryEntry, side: 1 | 2): GameState {
+  const [fields, other] =
+    side === 1 ? [entry.before, entry.after] : [entry.after, entry.before];
+  // Only the turn fields the move itself changed go back; anything since (a
+  // buzz, another team's lockout) stays
+  const next: GameState = { ...state };
+  for (const key of Object.keys(fields) as Array<keyof TurnFields>) {
+    if (JSON.stringify(fields[key]) !== JSON.stringify(other[key])) {
+      Object.assign(next, { [key]: fields[key] });
+    }
+  }
+  for (const key of BOARD_ARRAYS) {
+    const list: Array<[number, unknown, unknown]> | undefined =
+      entry.changes[key];
+    if (!list) continue;
+    const values: unknown[] = state[key].slice();
+    for (const change of list) values[change[0]] = change[side];
+    Object.assign(next, { [key]: values });
+  }
+  return next;
+}
+
+// Settings changed one after another (every click of a number field) make up
+// one entry
+function logHostAction(
+  state: GameState,
+  action: HostAction,
+  at: number,
+): HostLogEntry[] {
+  const last = state.hostLog[state.hostLog.length - 1];
+  if (action.type === "configure" && last?.action.type === "configure") {
+    const settings = { ...last.action.settings, ...action.settings };
+    return [
+      ...state.hostLog.slice(0, -1),
+      { ...last, action: { type: "configure", settings } },
+    ];
+  }
+  const entry = {
+    action,
+    atMs: gameTime(state.clock, at),
+    teamId: state.currentTeamId,
+  };
+  return [...state.hostLog, entry];
+}
+
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  const at = action.at ?? Date.now();
+  let next: GameState;
+  if (action.type === "undo") {
+    if (!canUndo(state)) return state;
+    const entry = state.history[state.history.length - 1];
+    next = {
+      ...replay(state, entry, 1),
+      history: state.history.slice(0, -1),
+      future: [...state.future, entry],
+    };
+  } else if (action.type === "redo") {
+    if (!canRedo(state)) return state;
+    const entry = state.future[state.future.length - 1];
+    next = {
+      ...replay(state, entry, 2),
+      history: [...state.history, entry],
+      future: state.future.slice(0, -1),
+    };
+  } else {
+    next = reduceAction(state, action, at);
+    const kind = HISTORY_KINDS[action.type];
+    if (kind && next !== state) next = record(state, next, kind);
+  }
+  if (next === state) return state;
+  if (isHostLogged(action)) {
+    const { at: _, ...logged } = action;
+    next = { ...next, hostLog: logHostAction(state, logged as HostAction, at) };
+  }
+  next = tick(state, next, at);
+  const events = eventsFor(state, next, action.type, gameTime(next.clock, at));
+  return events.length
+    ? { ...next, events: [...next.events, ...events] }
+    : next;
+}
+
+// Keeps the clocks in step with a state change made at `at`: the turn clock
+// restarts whenever the turn moves, and game time stops once it's solved.
+// Running time is folded into elapsedMs so a saved game keeps it.
+function tick(prev: GameState, next: GameState, at: number): GameState {
+  if (!next.started || next.clock.paused) return next;
+  const now = gameTime(next.clock, at);
+  const turnMoved = next.currentTeamId !== prev.currentTeamId;
+  return {
+    ...next,
+    clock: {
+      ...next.clock,
+      elapsedMs: now,
+      runningSince: next.finished ? null : at,
+      turnStartedMs: turnMoved ? now : next.clock.turnStartedMs,
+    },
+  };
+}
+
+function reduceAction(
+  state: GameState,
+  action: GameAction,
+  at: number,
+): GameState {
+  switch (action.type) {
+    case "load": {
+      const { puz } = action;
+      // A file exported mid-game brings its fill, and its teams and square
+      // owners unless teams were already set up here
+      const teams =
+        state.teams.length || !puz.teams?.length ? state.teams : puz.teams;
+      const known = new Set(teams.map((t) => t.id));
+      return {
+        ...state,
+        puz,
+        teams,
+        nextTeamId: Math.max(state.nextTeamId, ...teams.map((t) => t.id + 1)),
+        cells: puz.grid.map((cell, i) =>
+          cell.isBlock ? "" : (puz.fill?.[i] ?? ""),
+        ),
+        status: puz.grid.map(() => "unchecked"),
+        owners: puz.grid.map((_, i) => {
+          const owner = puz.owners?.[i] ?? null;
+          return owner != null && known.has(owner) ? owner : null;
+        }),
+        revealedAcross: new Array(puz.across.length).fill(false),
+        revealedDown: new Array(puz.down.length).fill(false),
+        revealedCells: puz.grid.map(() => false),
+        started: false,
+        finished: false,
+        claimed: null,
+        history: [],
+        future: [],
+        clock: initialGameState().clock,
+        bonuses: {},
+        wrongGuesses: {},
+        hints: {},
+        steal: null,
+        stolen: {},
+        buzzQueue: [],
+        lockedOut: [],
+        buzzes: [],
+        adjustments: {},
+        hostLog: [],
+        events: [],
+      };
+    }
+    case "restore": {
+      // Saved games may predate newer fields; fill those from the defaults
+      const restored: GameState = {
+        ...initialGameState(),
+        ...action.state,
+        settings: { ...defaultSettings(), ...action.state.settings },
+      };
+      // Time spent away from the game doesn't count
+      const running =
+        restored.started && !restored.finished && !restored.clock.paused;
+      return {
+        ...restored,
+        clock: { ...restored.clock, runningSince: running ? at : null },
+      };
+    }
+    case "setClueOrder": {
+      // Only the clue text moves; entries, reveals and progress stay put
+      const { puz } = state;
+      if (!puz) return state;
+      const { across, down } = assignClues(
+        puz.across,
+        puz.down,
+        puz.cluesRaw,
+        action.order,
+      );
+      return {
+        ...state,
+        puz: {
+          ...puz,
+          across,
+          down,
+          clueOrder: action.order,
+          clueOrderConfidence: 1,
+        },
+      };
+    }
+    case "addTeam": {
+      const team: Team = {
+        id: state.nextTeamId,
+        name: action.name.trim() || `Team ${state.nextTeamId}`,
+        color: action.color,
+      };
+      return {
+        ...state,
+        teams: [...state.teams, team],
+        nextTeamId: state.nextTeamId + 1,
+        currentTeamId: state.started ? state.currentTeamId : team.id,
+      };
+    }
+    case "updateTeam":
+      return {
+        ...state,
+        teams: state.teams.map((t) =>
+          t.id === action.id ? { ...t, ...action.changes } : t,
+        ),
+      };
+    case "selectTeam":
+      // Turn order is owned by the engine once the game is running.
+      if (state.started) return state;
+      return { ...state, currentTeamId: action.id };
+    case "configure":
+      if (state.started) return state;
+      return { ...state, settings: { ...state.settings, ...action.settings } };
+    case "start": {
+      if (state.started || !state.puz || state.teams.length < 2) return state;
+      const first = state.teams.some((t) => t.id === state.currentTeamId)
+        ? state.currentTeamId
+        : state.teams[0].id;
+      return {
+        ...state,
+        started: true,
+        // In buzzer mode nobody plays until a clue is open and a team buzzes
+        currentTeamId: state.settings.mode === "buzzer" ? null : first,
+        claimed: null,
+        history: [],
+        future: [],
+        clock: {
+          elapsedMs: 0,
+          runningSince: at,
+          turnStartedMs: 0,
+          paused: false,
+        },
+        bonuses: {},
+        wrongGuesses: {},
+        hints: {},
+        steal: null,
+        stolen: {},
+        buzzQueue: [],
+        lockedOut: [],
+        buzzes: [],
+        adjustments: {},
+        events: [],
+      };
+    }
+    case "pause":
+      if (!state.started || state.finished || state.clock.paused) return state;
+      return {
+        ...state,
+        clock: {
+          ...state.clock,
+          elapsedMs: gameTime(state.clock, at),
+          runningSince: null,
+          paused: true,
+        },
+      };
+    case "resume":
+      if (!state.clock.paused) return state;
+      return {
+        ...state,
+        clock: { ...state.clock, runningSince: at, paused: false },
+      };
+    case "expire": {
+      const left = turnTimeLeft(state, at);
+      if (left == null || left > 0 || state.clock.paused) return state;
+      if (state.steal) return endSteal(state, at, false);
+      if (state.settings.mode === "buzzer") return lockOut(state);
+      return {
+        ...state,
+        currentTeamId: teamAfter(state.teams, state.currentTeamId),
+        claimed: null,
+        // Restarts the turn clock even if the same team goes again
+        clock: { ...state.clock, turnStartedMs: gameTime(state.clock, at) },
+      };
+    }
+    case "openClue": {
+      // Can't be swapped out from under a team that's answering
+      const { puz } = state;
+      if (!puz || !state.started || state.finished || state.clock.paused) {
+        return state;
+      }
+      if (state.settings.mode !== "buzzer" || state.currentTeamId != null) {
+        return state;
+      }
+      const entry = entryFor(puz, action.clue);
+      if (!entry || isEntrySolved(entry.cells, state.status)) return state;
+      const key =
+        action.clue.dir === "across" ? "revealedAcross" : "revealedDown";
+      return {
+        ...state,
+        [key]: state[key].map((v, i) => (i === action.clue.index ? true : v)),
+        claimed: action.clue,
+        buzzQueue: [],
+        lockedOut: [],
+      };
+    }
+    case "buzz":
+      return buzz(state, action.teamId, at);
+    case "skipTurn":
+      if (!state.started || state.finished) return state;
+      // In buzzer mode this closes the open clue unanswered
+      if (state.settings.mode === "buzzer") {
+        if (!state.claimed) return state;
+        return {
+          ...state,
+          claimed: null,
+          currentTeamId: null,
+          buzzQueue: [],
+          lockedOut: [],
+        };
+      }
+      return {
+        ...state,
+        currentTeamId: teamAfter(state.teams, state.currentTeamId),
+        claimed: null,
+        steal: null,
+        clock: { ...state.clock, turnStartedMs: gameTime(state.clock, at) },
+      };
+    case "adjustScore": {
+      const { teamId, points } = action;
+      if (!state.teams.some((t) => t.id === teamId)) return state;
+      if (!points || !Number.isFinite(points)) return state;
+      // Every adjustment has to be explained in the host log
+      if (!action.reason.trim()) return state;
+      return {
+        ...state,
+        adjustments: {
+          ...state.adjustments,
+          [teamId]: (state.adjustments[teamId] ?? 0) + points,
+        },
+      };
+    }
+    case "reopenCell": {
+      // A square graded correct by mistake (or disputed) can be typed in
+      // again, but only during play: a finished game, whether solved or ended
+      // by the host, stays over
+      if (!state.started || state.finished) return state;
+      if (state.status[action.index] !== "correct") return state;
+      const status = state.status.slice();
+      status[action.index] = "unchecked";
+      const revealedCells = state.revealedCells.slice();
+      revealedCells[action.index] = false;
+      return { ...state, status, revealedCells };
+    }
+    case "endGame":
+      if (!state.started || state.finished) return state;
+      return {
+        ...state,
+        finished: true,
+        claimed: null,
+        steal: null,
+        buzzQueue: [],
+      };
+    case "claim": {
+      const { puz } = state;
+      if (!puz || !state.started || state.finished || state.clock.paused) {
+        return state;
+      }
+      const entry = entryFor(puz, action.clue);
+      if (!entry || isEntrySolved(entry.cells, state.status)) return state;
+      if (!canClaim(state, action.clue)) return state;
+      const key =
+        action.clue.dir === "across" ? "revealedAcross" : "revealedDown";
+      return {
+        ...state,
+        [key]: state[key].map((v, i) => (i === action.clue.index ? true : v)),
+        claimed: action.clue,
+      };
+    }
+    case "input": {
+      if (!canEditCell(state, action.index)) return state;
+      const value = action.value
+        .toUpperCase()
+        .replace(/[^A-Z]/g, "")
+        .slice(0, MAX_CELL_LENGTH);
+      const cells = state.cells.slice();
+      cells[action.index] = value;
+      const owners = state.owners.slice();
+      owners[action.index] = value ? state.currentTeamId : null;
+      // An incorrect mark stays until the letter is deleted
+      const status = state.status.slice();
+      if (!value) status[action.index] = "unchecked";
+      return { ...state, cells, owners, status };
+    }
+    case "clear": {
+      if (!canEditCell(state, action.index)) return state;
+      const cells = state.cells.slice();
+      cells[action.index] = "";
+      const owners = state.owners.slice();
+      owners[action.index] = null;
+      const status = state.status.slice();
+      status[action.index] = "unchecked";
+      return { ...state, cells, owners, status };
+    }
+    case "check":
+      return check(state, at);
+    case "revealLetter": {
+      if (state.steal || !canEditCell(state, action.index)) return state;
+      return reveal(
+        state,
+        [action.index],
+        "letters",
+        state.settings.hintCosts.letter,
+      );
+    }
+    case "revealWord": {
+      const entry = hintEntry(state, action.clue);
+      if (!entry) return state;
+      return reveal(
+        state,
+        entry.cells.map((c) => c.index),
+        "words",
+        state.settings.hintCosts.word,
+      );
+    }
+    case "checkWord": {
+      const entry = hintEntry(state, action.clue);
+      if (!entry || entry.cells.some((c) => !state.cells[c.index])) {
+        return state;
+      }
+      return checkWord(state, entry);
+    }
+    default:
+      return state;
+  }
+}
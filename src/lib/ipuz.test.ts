@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseIpuz } from "./ipuz";
+
+// 2x2, no blocks; `across` is the 1 Across clue
+const ipuz = (across: string) =>
+  JSON.stringify({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 2, height: 2 },
+    puzzle: [
+      [1, 2],
+      [3, 0],
+    ],
+    solution: [
+      ["A", "B"],
+      ["C", "D"],
+    ],
+    clues: {
+      Across: [
+        [1, across],
+        [3, "Second"],
+      ],
+      Down: [
+        [1, "Third"],
+        [2, "Fourth"],
+      ],
+    },
+  });
+
+describe("clue text", () => {
+  it("drops markup and decodes entities", () => {
+    const puz = parseIpuz(ipuz("<i>Salt</i> &amp; pepper &lt;3"));
+    expect(puz.across[0].clue).toBe("Salt & pepper <3");
+  });
+
+  it("decodes an escaped entity only once", () => {
+    const puz = parseIpuz(ipuz("Write &amp;lt; in HTML"));
+    expect(puz.across[0].clue).toBe("Write &lt; in HTML");
+  });
+});
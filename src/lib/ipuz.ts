@@ -0,0 +1,138 @@
+import { type Cell, type ParsedPuz, puzzleFromClues } from "./puz";
+
+// .ipuz crossword reader. Spec reference: http://www.ipuz.org/
+// ipuz is JSON (occasionally wrapped as `ipuz({...})`). We read the puzzle and
+// solution grids, clue lists, metadata, circled squares and rebus answers.
+
+type IpuzStyle = { shapebg?: string } | string;
+
+type IpuzCell =
+  | number
+  | string
+  | null
+  | { cell?: number | string | null; style?: IpuzStyle; value?: string };
+
+type IpuzClue =
+  | string
+  | [number | string, string]
+  | { number?: number | string; clue?: string };
+
+type IpuzDoc = {
+  kind?: string[];
+  dimensions?: { width?: number; height?: number };
+  puzzle?: IpuzCell[][];
+  solution?: IpuzCell[][];
+  clues?: Record<string, IpuzClue[]>;
+  title?: string;
+  author?: string;
+  copyright?: string;
+  block?: string;
+};
+
+// Titles and clues may contain simple HTML
+const stripHtml = (s: string) =>
+  s
+    .replace(/<[^>]*>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&copy;/g, "©")
+    .replace(/&nbsp;/g, " ")
+    // Last, so an escaped entity ("&amp;lt;") comes out as written
+    .replace(/&amp;/g, "&")
+    .trim();
+
+export function looksLikeIpuz(text: string): boolean {
+  const t = text.trimStart();
+  return t.startsWith("{") || t.startsWith("ipuz(");
+}
+
+export function parseIpuz(text: string): ParsedPuz {
+  let json = text.trim();
+  if (json.startsWith("ipuz(")) json = json.slice(5, json.lastIndexOf(")"));
+  let doc: IpuzDoc;
+  try {
+    doc = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid .ipuz: not valid JSON");
+  }
+  if (doc.kind && !doc.kind.some((k) => k.includes("crossword"))) {
+    throw new Error("Invalid .ipuz: not a crossword");
+  }
+
+  const width = doc.dimensions?.width ?? 0;
+  const height = doc.dimensions?.height ?? 0;
+  if (!width || !height || !doc.puzzle || !doc.solution) {
+    throw new Error("Invalid .ipuz: missing dimensions, puzzle or solution");
+  }
+  const block = String(doc.block ?? "#");
+  const { puzzle, solution } = doc;
+
+  const grid: Cell[] = new Array(width * height);
+  const fileNumbers: Array<number | null> = new Array(width * height).fill(
+    null,
+  );
+  for (let r = 0; r < height; r++) {
+    for (let c = 0; c < width; c++) {
+      const i = r * width + c;
+      const p = puzzle[r]?.[c] ?? null;
+      const sol = solution[r]?.[c] ?? null;
+      const label = typeof p === "object" && p !== null ? p.cell : p;
+      const answer = typeof sol === "object" && sol !== null ? sol.value : sol;
+      // Omitted squares (null) render the same as blocks
+      const isBlock =
+        label === null ||
+        String(label) === block ||
+        answer == null ||
+        String(answer) === block;
+      grid[i] = {
+        row: r,
+        col: c,
+        index: i,
+        isBlock,
+        solution: isBlock ? "." : String(answer).toUpperCase(),
+      };
+      if (isBlock) continue;
+      const n = Number(label);
+      if (Number.isInteger(n) && n > 0) fileNumbers[i] = n;
+      const style = typeof p === "object" && p !== null ? p.style : undefined;
+      if (typeof style === "object" && style.shapebg === "circle") {
+        grid[i].circled = true;
+      }
+    }
+  }
+
+  const readClues = (key: "Across" | "Down") => {
+    const byNumber = new Map<number, string>();
+    // Keys may carry a display label, e.g. "Across:Horizontal"
+    const list =
+      Object.entries(doc.clues ?? {}).find(
+        ([k]) => k.split(":")[0].toLowerCase() === key.toLowerCase(),
+      )?.[1] ?? [];
+    for (const clue of list) {
+      if (Array.isArray(clue)) {
+        byNumber.set(Number(clue[0]), stripHtml(String(clue[1])));
+      } else if (typeof clue === "object" && clue !== null) {
+        if (clue.number != null) {
+          byNumber.set(Number(clue.number), stripHtml(clue.clue ?? ""));
+        }
+      }
+    }
+    return byNumber;
+  };
+
+  return puzzleFromClues(
+    {
+      width,
+      height,
+      title: stripHtml(doc.title ?? ""),
+      author: stripHtml(doc.author ?? ""),
+      copyright: stripHtml(doc.copyright ?? ""),
+      format: "ipuz",
+    },
+    grid,
+    { across: readClues("Across"), down: readClues("Down") },
+    fileNumbers,
+  );
+}
@@ -0,0 +1,131 @@
+import { type Cell, type ParsedPuz, puzzleFromClues } from "./puz";
+import { isZip, listZipEntries } from "./unzip";
+
+// Crossword Compiler .jpz reader. A .jpz is either plain XML or a zip archive
+// holding a single XML file. We read the grid (blocks, answers, circles, given
+// squares), metadata, and the Across/Down clue lists with their own numbers.
+// Needs DOMParser, so it only runs in the browser.
+
+// Elements may be namespaced (with or without a prefix); match on local names
+const children = (el: Element, name: string) =>
+  Array.from(el.children).filter((c) => c.localName === name);
+
+const descendants = (el: Element | Document, name: string) =>
+  Array.from(el.getElementsByTagName("*")).filter((c) => c.localName === name);
+
+// Clue text and titles may carry inline markup (<i>, <b>, <span>...)
+const textOf = (el: Element | undefined) =>
+  (el?.textContent ?? "").replace(/\s+/g, " ").trim();
+
+export function looksLikeJpz(bytes: Uint8Array): boolean {
+  if (isZip(bytes)) return true;
+  const head = new TextDecoder("utf-8").decode(bytes.subarray(0, 1024));
+  return /<(\w+:)?(crossword-compiler|rectangular-puzzle)\b/.test(head);
+}
+
+// Older Crossword Compiler versions write ISO-8859-1; honour the declaration
+function decodeXml(bytes: Uint8Array): string {
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, 200));
+  const encoding = /<\?xml[^>]*encoding=["']([\w-]+)["']/i.exec(head)?.[1];
+  try {
+    return new TextDecoder(encoding ?? "utf-8").decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+async function unzipJpz(bytes: Uint8Array): Promise<Uint8Array> {
+  const files = listZipEntries(bytes).filter((e) => !e.name.endsWith("/"));
+  const entry =
+    files.find((e) => /\.(xml|jpz)$/i.test(e.name)) ??
+    files.find((e) => !e.name.startsWith("__MACOSX/"));
+  if (!entry) throw new Error("Invalid .jpz: archive is empty");
+  return entry.read();
+}
+
+export async function parseJpz(buf: ArrayBuffer): Promise<ParsedPuz> {
+  let bytes: Uint8Array = new Uint8Array(buf);
+  if (isZip(bytes)) bytes = await unzipJpz(bytes);
+
+  const doc = new DOMParser().parseFromString(
+    decodeXml(bytes),
+    "application/xml",
+  );
+  if (descendants(doc, "parsererror").length) {
+    throw new Error("Invalid .jpz: not well-formed XML");
+  }
+  const puzzle = descendants(doc, "rectangular-puzzle")[0];
+  const crossword = puzzle && children(puzzle, "crossword")[0];
+  const gridEl = crossword && children(crossword, "grid")[0];
+  if (!gridEl) throw new Error("Invalid .jpz: no crossword grid");
+
+  const width = Number(gridEl.getAttribute("width"));
+  const height = Number(gridEl.getAttribute("height"));
+  if (!(width > 0 && height > 0)) {
+    throw new Error("Invalid .jpz: missing grid dimensions");
+  }
+
+  // Squares the file doesn't mention stay blocks
+  const grid: Cell[] = Array.from({ length: width * height }, (_, i) => ({
+    row: Math.floor(i / width),
+    col: i % width,
+    index: i,
+    isBlock: true,
+    solution: ".",
+  }));
+  const fileNumbers: Array<number | null> = new Array(width * height).fill(
+    null,
+  );
+  for (const cellEl of children(gridEl, "cell")) {
+    const col = Number(cellEl.getAttribute("x")) - 1;
+    const row = Number(cellEl.getAttribute("y")) - 1;
+    if (!(row >= 0 && row < height && col >= 0 && col < width)) continue;
+    const type = cellEl.getAttribute("type");
+    const solution = (cellEl.getAttribute("solution") ?? "").toUpperCase();
+    if (type === "block" || type === "void" || type === "clue" || !solution) {
+      continue;
+    }
+    const i = row * width + col;
+    grid[i] = { ...grid[i], isBlock: false, solution };
+    if (cellEl.getAttribute("background-shape") === "circle") {
+      grid[i].circled = true;
+    }
+    if (cellEl.getAttribute("hint") === "true") grid[i].revealed = true;
+    const n = Number(cellEl.getAttribute("number"));
+    if (Number.isInteger(n) && n > 0) fileNumbers[i] = n;
+  }
+
+  // Lists are identified by their title; fall back to document order
+  const across = new Map<number, string>();
+  const down = new Map<number, string>();
+  children(crossword, "clues").forEach((list, k) => {
+    const title = textOf(children(list, "title")[0]).toLowerCase();
+    const target = title.includes("down")
+      ? down
+      : title.includes("across") || k === 0
+        ? across
+        : down;
+    for (const clueEl of children(list, "clue")) {
+      const n = Number(clueEl.getAttribute("number"));
+      if (Number.isInteger(n) && n > 0) target.set(n, textOf(clueEl));
+    }
+  });
+
+  const meta = children(puzzle, "metadata")[0];
+  const metaText = (name: string) =>
+    meta ? textOf(children(meta, name)[0]) : "";
+
+  return puzzleFromClues(
+    {
+      width,
+      height,
+      title: metaText("title"),
+      author: metaText("creator"),
+      copyright: metaText("copyright"),
+      format: "jpz",
+    },
+    grid,
+    { across, down },
+    fileNumbers,
+  );
+}
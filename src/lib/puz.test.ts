@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { buildEntries, type Cell, detectClueOrder } from "./puz";
+
+// 2x3, no blocks: 1 and 4 Across (3 letters), 1, 2 and 3 Down (2 letters)
+const grid: Cell[] = [..."ABCDEF"].map((solution, index) => ({
+  row: Math.floor(index / 3),
+  col: index % 3,
+  index,
+  isBlock: false,
+  solution,
+}));
+const { across, down } = buildEntries(grid, 3, 2);
+
+describe("detectClueOrder", () => {
+  it("trusts the spec's order when no clue hints at a length", () => {
+    expect(detectClueOrder(across, down, ["a", "b", "c", "d", "e"])).toEqual({
+      order: "interleaved-ad",
+      confidence: 1,
+    });
+  });
+
+  it("follows the hints when they contradict the spec", () => {
+    // All Across first: 1A, 4A, then the Downs
+    const clues = ["a (3)", "b (3)", "c (2)", "d (2)", "e (2)"];
+    const { order, confidence } = detectClueOrder(across, down, clues);
+    expect(order).toBe("across-down");
+    expect(confidence).toBeGreaterThan(0.8);
+  });
+});
@@ -1,9 +1,15 @@
+import type { Team } from "./game";
+
 export type Cell = {
   row: number;
   col: number;
   index: number;
   isBlock: boolean;
-  solution: string; // uppercase letter or '.' for block
+  solution: string; // uppercase answer (several letters for a rebus square) or '.' for block
+  // Square markup from the GEXT extension (or the equivalent in other formats)
+  circled?: boolean;
+  revealed?: boolean; // the answer was given to the solver
+  markedIncorrect?: boolean; // the square was marked wrong at some point
 };
 
 export type ClueEntry = {
@@ -12,6 +18,27 @@ export type ClueEntry = {
   cells: Cell[]; // cells that belong to this entry, in order
 };
 
+export type ChecksumName = "global" | "cib" | "maskedLow" | "maskedHigh";
+
+export type ChecksumMismatch = {
+  name: ChecksumName;
+  expected: number; // value stored in the file
+  actual: number; // value computed from the file's contents
+};
+
+export type ChecksumReport = {
+  ok: boolean;
+  mismatches: ChecksumMismatch[];
+};
+
+export type PuzzleFormat = "puz" | "ipuz" | "jpz" | "txt" | "xd";
+
+export type ClueOrder =
+  | "across-down"
+  | "down-across"
+  | "interleaved-ad"
+  | "interleaved-da";
+
 export type ParsedPuz = {
   width: number;
   height: number;
@@ -22,17 +49,152 @@ export type ParsedPuz = {
   cluesRaw: string[]; // raw clues in Across-then-Down order
   across: ClueEntry[];
   down: ClueEntry[];
-  clueOrder: "across-down" | "down-across" | "interleaved-ad" | "interleaved-da";
+  clueOrder: ClueOrder;
+  // How sure detectClueOrder was about `clueOrder`, 0..1 (1 when it was given)
+  clueOrderConfidence: number;
+  checksums: ChecksumReport;
+  format: PuzzleFormat; // file type it was imported from
+  // Progress saved in the file, when it has any: the fill grid (with RUSR
+  // rebus entries), plus who filled each square and the teams, from our own
+  // OWNR/TEAM extensions.
+  fill?: string[]; // "" for an empty square
+  owners?: Array<number | null>;
+  teams?: Team[];
 };
 
 export type ParseOptions = {
-  clueOrder?: "across-down" | "down-across" | "interleaved-ad" | "interleaved-da";
+  clueOrder?: ClueOrder; // skip detection and use this order
+  // Strict parsing throws PuzChecksumError on any checksum mismatch; lenient
+  // (the default) parses anyway and reports mismatches in `checksums`.
+  strict?: boolean;
 };
 
+export class PuzChecksumError extends Error {
+  mismatches: ChecksumMismatch[];
+
+  constructor(mismatches: ChecksumMismatch[]) {
+    super(`Invalid .puz: ${describeChecksumMismatches(mismatches)}`);
+    this.name = "PuzChecksumError";
+    this.mismatches = mismatches;
+  }
+}
+
+const CHECKSUM_LABELS: Record<ChecksumName, string> = {
+  global: "file checksum",
+  cib: "header checksum",
+  maskedLow: "masked checksum (low bytes)",
+  maskedHigh: "masked checksum (high bytes)",
+};
+
+const hex = (n: number, digits: number) =>
+  `0x${n.toString(16).toUpperCase().padStart(digits, "0")}`;
+
+export function describeChecksumMismatches(
+  mismatches: ChecksumMismatch[],
+): string {
+  return mismatches
+    .map((m) => {
+      const digits = m.name === "global" || m.name === "cib" ? 4 : 8;
+      return `${CHECKSUM_LABELS[m.name]} expected ${hex(m.expected, digits)}, got ${hex(m.actual, digits)}`;
+    })
+    .join("; ");
+}
+
+// Extension sections follow the notepad: a 4-character title, the data length
+// and checksum (both LE uint16), the data itself, then a NUL. Parsing stops at
+// the first section that doesn't fit in the file.
+export function readExtensions(
+  bytes: Uint8Array,
+  start: number,
+): Map<string, Uint8Array> {
+  const sections = new Map<string, Uint8Array>();
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let cursor = start;
+  while (cursor + 8 <= bytes.length) {
+    const title = new TextDecoder("latin1").decode(
+      bytes.subarray(cursor, cursor + 4),
+    );
+    const length = dv.getUint16(cursor + 4, true);
+    const dataStart = cursor + 8;
+    if (dataStart + length > bytes.length) break;
+    sections.set(title, bytes.slice(dataStart, dataStart + length));
+    cursor = dataStart + length + 1; // skip trailing NUL
+  }
+  return sections;
+}
+
+// RTBL maps rebus keys to their answers as "NN:WORD;" pairs, where NN is the
+// key padded to two characters (e.g. " 0:HEART;12:SPADE;").
+export function parseRebusTable(data: Uint8Array): Map<number, string> {
+  const table = new Map<number, string>();
+  const text = new TextDecoder("latin1").decode(data);
+  for (const part of text.split(";")) {
+    const sep = part.indexOf(":");
+    if (sep < 0) continue;
+    const key = Number.parseInt(part.slice(0, sep).trim(), 10);
+    const word = part.slice(sep + 1).trim();
+    if (Number.isFinite(key) && word) table.set(key, word.toUpperCase());
+  }
+  return table;
+}
+
+// RUSR holds the solver's rebus entries: one NUL-terminated string per square,
+// empty for squares without one.
+function parseUserRebus(
+  data: Uint8Array | undefined,
+  gridSize: number,
+): string[] {
+  const entries = new Array<string>(gridSize).fill("");
+  if (!data) return entries;
+  let cursor = 0;
+  for (let i = 0; i < gridSize && cursor < data.length; i++) {
+    const end = data.indexOf(0, cursor);
+    const stop = end < 0 ? data.length : end;
+    entries[i] = new TextDecoder("latin1")
+      .decode(data.subarray(cursor, stop))
+      .toUpperCase();
+    cursor = stop + 1;
+  }
+  return entries;
+}
+
+// Our own TEAM section lists the teams of a game exported mid-play as
+// "id:color:name;" entries; OWNR then stores one team id (0 for none) per
+// square. Other .puz readers skip sections they don't know.
+export function parseTeamTable(data: Uint8Array): Team[] {
+  const teams: Team[] = [];
+  const text = new TextDecoder("latin1").decode(data);
+  for (const part of text.split(";")) {
+    const [id, color, ...name] = part.split(":");
+    const n = Number.parseInt(id, 10);
+    if (Number.isInteger(n) && n > 0 && color)
+      teams.push({ id: n, color, name: name.join(":") });
+  }
+  return teams;
+}
+
+// GEXT stores one bitmask per square.
+const GEXT_PREVIOUSLY_INCORRECT = 0x10;
+const GEXT_INCORRECT = 0x20;
+const GEXT_REVEALED = 0x40;
+const GEXT_CIRCLED = 0x80;
+
+// The rolling 16-bit checksum used throughout the format.
+export function checksumRegion(bytes: Uint8Array, seed = 0): number {
+  let c = seed;
+  for (let i = 0; i < bytes.length; i++) {
+    c = c & 1 ? (c >> 1) + 0x8000 : c >> 1;
+    c = (c + bytes[i]) & 0xffff;
+  }
+  return c;
+}
+
 // Minimal .puz parser sufficient for rendering and clues.
 // Spec reference: https://code.google.com/archive/p/puz/wikis/FileFormat.wiki
-// We intentionally ignore checksums and extensions; we just locate width/height,
-// read solution + fill grids, and the string section.
+// We locate width/height, read solution + fill grids and the string section,
+// and verify the global, CIB and masked checksums. Of the extension sections,
+// GRBS/RTBL (rebus squares) and GEXT (circles and markup) are read; the rest
+// are ignored.
 export function parsePuz(buf: ArrayBuffer, opts: ParseOptions = {}): ParsedPuz {
   const dv = new DataView(buf);
   const bytes = new Uint8Array(buf);
@@ -42,6 +204,10 @@ export function parsePuz(buf: ArrayBuffer, opts: ParseOptions = {}): ParsedPuz {
   const OFFSET_HEIGHT = 0x2d; // 45
   const OFFSET_NUM_CLUES = 0x2e; // 46-47 (LE)
 
+  if (bytes.length < 0x34) {
+    throw new Error("Invalid .puz: file is too short to contain a header");
+  }
+
   const width = dv.getUint8(OFFSET_WIDTH);
   const height = dv.getUint8(OFFSET_HEIGHT);
   const numClues = dv.getUint16(OFFSET_NUM_CLUES, true);
@@ -61,7 +227,7 @@ export function parsePuz(buf: ArrayBuffer, opts: ParseOptions = {}): ParsedPuz {
   }
 
   const solBytes = bytes.slice(OFFSET_SOLUTION, OFFSET_SOLUTION + gridSize);
-  // const fillBytes = bytes.slice(OFFSET_FILL, OFFSET_FILL + gridSize); // Not strictly needed
+  const fillBytes = bytes.slice(OFFSET_FILL, OFFSET_FILL + gridSize);
 
   // Strings start right after fillBytes and are NUL-terminated: title, author, copyright,
   // then numClues clues, then optional notepad.
@@ -84,12 +250,39 @@ export function parsePuz(buf: ArrayBuffer, opts: ParseOptions = {}): ParsedPuz {
 
   const cluesRaw: string[] = [];
   for (let i = 0; i < numClues; i++) {
-    const c = readNullTerminated();
-    console.log("clue", c);
-    cluesRaw.push(c);
+    cluesRaw.push(readNullTerminated());
+  }
+  // Optional notepad (only used for checksums)
+  const notesStart = cursor;
+  let notesEnd = cursor;
+  while (notesEnd < bytes.length && bytes[notesEnd] !== 0) notesEnd++;
+
+  const checksums = verifyChecksums(bytes, {
+    gridSize,
+    stringsStart: OFFSET_FILL + gridSize,
+    numClues,
+    notes: bytes.slice(notesStart, notesEnd),
+  });
+  if (opts.strict && !checksums.ok) {
+    throw new PuzChecksumError(checksums.mismatches);
   }
-  // Optional notepad (ignored)
-  // const notepad = cursor < bytes.length && bytes[cursor] !== 0 ? readNullTerminated() : "";
+
+  const extensions = readExtensions(bytes, notesEnd + 1);
+  // GRBS holds, per cell, 0 for a normal square or 1 + its RTBL key
+  const grbs = extensions.get("GRBS");
+  const rebusTable = parseRebusTable(
+    extensions.get("RTBL") ?? new Uint8Array(),
+  );
+  const rebusAt = (i: number): string | undefined =>
+    grbs && grbs.length === gridSize && grbs[i] > 0
+      ? rebusTable.get(grbs[i] - 1)
+      : undefined;
+  const gext = extensions.get("GEXT");
+  const markupAt = (i: number): number =>
+    gext && gext.length === gridSize ? gext[i] : 0;
+  const userRebus = parseUserRebus(extensions.get("RUSR"), gridSize);
+  const ownr = extensions.get("OWNR");
+  const teams = parseTeamTable(extensions.get("TEAM") ?? new Uint8Array());
 
   // Build cell grid
   const grid: Cell[] = new Array(gridSize);
@@ -103,32 +296,81 @@ export function parsePuz(buf: ArrayBuffer, opts: ParseOptions = {}): ParsedPuz {
       col,
       index: i,
       isBlock,
-      solution: isBlock ? "." : ch.toUpperCase(),
+      solution: isBlock ? "." : (rebusAt(i) ?? ch.toUpperCase()),
     };
+    const markup = isBlock ? 0 : markupAt(i);
+    if (markup & GEXT_CIRCLED) grid[i].circled = true;
+    if (markup & GEXT_REVEALED) grid[i].revealed = true;
+    if (markup & (GEXT_INCORRECT | GEXT_PREVIOUSLY_INCORRECT))
+      grid[i].markedIncorrect = true;
   }
 
+  // "-" marks an empty square in the fill grid
+  const fill = grid.map((cell, i) => {
+    if (cell.isBlock) return "";
+    const ch = String.fromCharCode(fillBytes[i]);
+    return userRebus[i] || (ch === "-" || ch === "." ? "" : ch.toUpperCase());
+  });
+  const owners =
+    ownr && ownr.length === gridSize
+      ? Array.from(ownr, (id, i) => (id && !grid[i].isBlock ? id : null))
+      : undefined;
+
+  const { across, down } = buildEntries(grid, width, height);
+
+  // The spec says clues are interleaved by number with Across first, but
+  // generators vary, so unless told otherwise pick the most plausible order.
+  const detected = opts.clueOrder
+    ? { order: opts.clueOrder, confidence: 1 }
+    : detectClueOrder(across, down, cluesRaw);
+  const assigned = assignClues(across, down, cluesRaw, detected.order);
+
+  return {
+    width,
+    height,
+    title,
+    author,
+    copyright,
+    grid,
+    cluesRaw,
+    across: assigned.across,
+    down: assigned.down,
+    clueOrder: detected.order,
+    clueOrderConfidence: detected.confidence,
+    checksums,
+    format: "puz",
+    ...(fill.some(Boolean) ? { fill } : {}),
+    ...(owners ? { owners } : {}),
+    ...(teams.length ? { teams } : {}),
+  };
+}
+
+// Numbers the grid and collects its Across/Down entries (with empty clues) in
+// a single row-major scan, the way every .puz reader does. Shared by all the
+// importers and the constructor so numbering is always identical.
+export function buildEntries(
+  grid: Cell[],
+  width: number,
+  height: number,
+): { across: ClueEntry[]; down: ClueEntry[] } {
   const isBlockAt = (r: number, c: number): boolean => {
     if (r < 0 || r >= height || c < 0 || c >= width) return true; // treat out of bounds as blocks
     return grid[r * width + c].isBlock;
   };
 
-  console.log(grid);
-
   // Build entries and numbers in a single scan to ensure exact order
   const across: ClueEntry[] = [];
   const down: ClueEntry[] = [];
-  type Start = { number: number; startsAcross: boolean; startsDown: boolean; acrossIndex?: number; downIndex?: number };
-  const starts: Start[] = [];
   let nextNum = 1;
   for (let r = 0; r < height; r++) {
     for (let c = 0; c < width; c++) {
       const idx = r * width + c;
       if (grid[idx].isBlock) continue;
-      const sa = c === 0 || isBlockAt(r, c - 1);
-      const sd = r === 0 || isBlockAt(r - 1, c);
+      // Per the spec an entry needs at least two squares
+      const sa = isBlockAt(r, c - 1) && !isBlockAt(r, c + 1);
+      const sd = isBlockAt(r - 1, c) && !isBlockAt(r + 1, c);
       if (!sa && !sd) continue;
       const num = nextNum++;
-      const s: Start = { number: num, startsAcross: sa, startsDown: sd };
       if (sa) {
         const cells: Cell[] = [];
         let cc = c;
@@ -136,7 +378,6 @@ export function parsePuz(buf: ArrayBuffer, opts: ParseOptions = {}): ParsedPuz {
           cells.push(grid[r * width + cc]);
           cc++;
         }
-        s.acrossIndex = across.length;
         across.push({ number: num, clue: "", cells });
       }
       if (sd) {
@@ -146,46 +387,387 @@ export function parsePuz(buf: ArrayBuffer, opts: ParseOptions = {}): ParsedPuz {
           cells.push(grid[rr * width + c]);
           rr++;
         }
-        s.downIndex = down.length;
         down.push({ number: num, clue: "", cells });
       }
-      starts.push(s);
     }
   }
 
-  // Assign clues based on requested order (default to interleaved A->D,
-  // which is common among modern generators; override via opts)
-  const order = opts.clueOrder || "interleaved-ad";
-  let clueIdx = 0;
-  const take = () => (clueIdx < cluesRaw.length ? cluesRaw[clueIdx++] : "");
-  if (order === "across-down") {
-    for (let i = 0; i < across.length; i++) across[i].clue = take();
-    for (let i = 0; i < down.length; i++) down[i].clue = take();
-  } else if (order === "down-across") {
-    for (let i = 0; i < down.length; i++) down[i].clue = take();
-    for (let i = 0; i < across.length; i++) across[i].clue = take();
-  } else if (order === "interleaved-ad") {
-    for (const s of starts) {
-      if (s.startsAcross && s.acrossIndex != null) across[s.acrossIndex].clue = take();
-      if (s.startsDown && s.downIndex != null) down[s.downIndex].clue = take();
-    }
-  } else if (order === "interleaved-da") {
-    for (const s of starts) {
-      if (s.startsDown && s.downIndex != null) down[s.downIndex].clue = take();
-      if (s.startsAcross && s.acrossIndex != null) across[s.acrossIndex].clue = take();
-    }
-  }
+  return { across, down };
+}
+
+export type PuzzleMeta = {
+  width: number;
+  height: number;
+  title: string;
+  author: string;
+  copyright: string;
+  format: PuzzleFormat;
+};
 
+// Builds a ParsedPuz for formats that label each clue with its number and
+// direction. `fileNumbers` (per cell, when the file has them) override the
+// computed numbering. cluesRaw is laid out in the standard interleaved order so
+// the result behaves like a .puz everywhere else.
+export function puzzleFromClues(
+  meta: PuzzleMeta,
+  grid: Cell[],
+  clues: { across: Map<number, string>; down: Map<number, string> },
+  fileNumbers?: Array<number | null>,
+): ParsedPuz {
+  const entries = buildEntries(grid, meta.width, meta.height);
+  const finish = (list: ClueEntry[], byNumber: Map<number, string>) =>
+    list.map((e) => {
+      const number = fileNumbers?.[e.cells[0].index] ?? e.number;
+      return { ...e, number, clue: byNumber.get(number) ?? "" };
+    });
+  const across = finish(entries.across, clues.across);
+  const down = finish(entries.down, clues.down);
   return {
-    width,
-    height,
-    title,
-    author,
-    copyright,
+    ...meta,
     grid,
-    cluesRaw,
+    cluesRaw: clueSlots(across, down, "interleaved-ad").map((e) => e.clue),
     across,
     down,
-    clueOrder: order,
+    clueOrder: "interleaved-ad",
+    clueOrderConfidence: 1,
+    checksums: { ok: true, mismatches: [] },
+  };
+}
+
+export const CLUE_ORDERS: ClueOrder[] = [
+  "interleaved-ad",
+  "interleaved-da",
+  "across-down",
+  "down-across",
+];
+
+// The entries in the order their clues appear in the file for `order`.
+export function clueSlots(
+  across: ClueEntry[],
+  down: ClueEntry[],
+  order: ClueOrder,
+): ClueEntry[] {
+  if (order === "across-down") return [...across, ...down];
+  if (order === "down-across") return [...down, ...across];
+  const first = order === "interleaved-ad" ? across : down;
+  const second = order === "interleaved-ad" ? down : across;
+  const slots: ClueEntry[] = [];
+  let i = 0;
+  let j = 0;
+  // Both lists are sorted by number; at equal numbers `first` wins
+  while (i < first.length || j < second.length) {
+    if (
+      j >= second.length ||
+      (i < first.length && first[i].number <= second[j].number)
+    ) {
+      slots.push(first[i++]);
+    } else {
+      slots.push(second[j++]);
+    }
+  }
+  return slots;
+}
+
+// Returns copies of the entries with clues taken from `cluesRaw` in `order`.
+// Used by the parser and when the host switches order mid-game.
+export function assignClues(
+  across: ClueEntry[],
+  down: ClueEntry[],
+  cluesRaw: string[],
+  order: ClueOrder,
+): { across: ClueEntry[]; down: ClueEntry[] } {
+  const clueFor = new Map<ClueEntry, string>();
+  clueSlots(across, down, order).forEach((entry, i) => {
+    clueFor.set(entry, cluesRaw[i] ?? "");
+  });
+  return {
+    across: across.map((e) => ({ ...e, clue: clueFor.get(e) ?? "" })),
+    down: down.map((e) => ({ ...e, clue: clueFor.get(e) ?? "" })),
+  };
+}
+
+// Enumerations such as "(5)", "(3,4)" or "(2-3)" at the end of a clue
+const ENUMERATION = /\((\d+(?:[\s,-]+\d+)*)\)\s*$/;
+// Clues that mention their own answer's letter count, e.g. "..., in 5 letters"
+const LETTER_COUNT = /\b(\d+)[-\s]letter\b|\bin (\d+) letters\b/i;
+
+// Weight of one piece of evidence relative to the spec's prior for
+// interleaved-ad.
+const EVIDENCE_WEIGHT = 2;
+const SPEC_PRIOR = 1.5;
+
+function evidenceFor(clue: string, entry: ClueEntry): number {
+  const length = entry.cells.reduce((n, c) => n + c.solution.length, 0);
+  const e = ENUMERATION.exec(clue);
+  if (e) {
+    const total = e[1]
+      .split(/[\s,-]+/)
+      .reduce((n, part) => n + Number(part), 0);
+    return total === length ? 1 : -1;
+  }
+  const l = LETTER_COUNT.exec(clue);
+  if (l) return Number(l[1] ?? l[2]) === length ? 1 : -1;
+  return 0;
+}
+
+// Scores every candidate order by how well clue hints fit the answer lengths
+// they would be paired with, and turns the scores into a confidence for the
+// winner. Without any hints there is nothing to doubt: the file follows the
+// spec's order like almost every .puz does.
+export function detectClueOrder(
+  across: ClueEntry[],
+  down: ClueEntry[],
+  cluesRaw: string[],
+): { order: ClueOrder; confidence: number } {
+  let hinted = false;
+  const scores = CLUE_ORDERS.map((order) => {
+    let score = order === "interleaved-ad" ? SPEC_PRIOR : 0;
+    clueSlots(across, down, order).forEach((entry, i) => {
+      const evidence = evidenceFor(cluesRaw[i] ?? "", entry);
+      if (evidence) hinted = true;
+      score += EVIDENCE_WEIGHT * evidence;
+    });
+    return score;
+  });
+  if (!hinted) return { order: "interleaved-ad", confidence: 1 };
+  const best = scores.indexOf(Math.max(...scores));
+  const top = scores[best];
+  const total = scores.reduce((sum, s) => sum + Math.exp(s - top), 0);
+  return { order: CLUE_ORDERS[best], confidence: 1 / total };
+}
+
+type ChecksumLayout = {
+  gridSize: number;
+  stringsStart: number;
+  numClues: number;
+  notes: Uint8Array;
+};
+
+// Checksums as described in the spec: the CIB covers the 8 header bytes from
+// width onward; the "part" checksum covers the strings (title, author and
+// copyright with their NULs if non-empty, clues without, notes from v1.3); the
+// global one chains CIB, solution, fill and strings; the masked ones XOR the
+// low/high bytes of the four partial sums with "ICHEATED".
+function computeChecksums(
+  bytes: Uint8Array,
+  layout: ChecksumLayout,
+): Record<ChecksumName, number> {
+  const { gridSize, stringsStart, numClues, notes } = layout;
+  const solution = bytes.subarray(0x34, 0x34 + gridSize);
+  const fill = bytes.subarray(0x34 + gridSize, stringsStart);
+
+  const version = new TextDecoder("latin1").decode(bytes.subarray(0x18, 0x1b));
+  const [major, minor] = version.split(".").map((n) => Number.parseInt(n, 10));
+  const includeNotes = major > 1 || (major === 1 && minor >= 3);
+
+  const stringsChecksum = (seed: number): number => {
+    let c = seed;
+    let cursor = stringsStart;
+    // Returns [start, end) of the next string, end being its NUL
+    const next = (): [number, number] => {
+      const start = cursor;
+      while (cursor < bytes.length && bytes[cursor] !== 0) cursor++;
+      return [start, cursor++];
+    };
+    for (let i = 0; i < 3; i++) {
+      const [start, end] = next();
+      if (end > start) c = checksumRegion(bytes.subarray(start, end + 1), c);
+    }
+    for (let i = 0; i < numClues; i++) {
+      const [start, end] = next();
+      c = checksumRegion(bytes.subarray(start, end), c);
+    }
+    if (includeNotes && notes.length) {
+      c = checksumRegion(notes, c);
+      c = checksumRegion(new Uint8Array([0]), c);
+    }
+    return c;
+  };
+
+  const cib = checksumRegion(bytes.subarray(0x2c, 0x34));
+  const sol = checksumRegion(solution);
+  const grid = checksumRegion(fill);
+  const part = stringsChecksum(0);
+  const global = stringsChecksum(
+    checksumRegion(fill, checksumRegion(solution, cib)),
+  );
+
+  const mask = [0x49, 0x43, 0x48, 0x45, 0x41, 0x54, 0x45, 0x44]; // "ICHEATED"
+  const partial = [cib, sol, grid, part];
+  const maskedLow =
+    partial.reduce(
+      (acc, c, i) => acc | (((mask[i] ^ c) & 0xff) << (8 * i)),
+      0,
+    ) >>> 0;
+  const maskedHigh =
+    partial.reduce(
+      (acc, c, i) => acc | (((mask[4 + i] ^ (c >> 8)) & 0xff) << (8 * i)),
+      0,
+    ) >>> 0;
+
+  return { global, cib, maskedLow, maskedHigh };
+}
+
+function verifyChecksums(
+  bytes: Uint8Array,
+  layout: ChecksumLayout,
+): ChecksumReport {
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const actual = computeChecksums(bytes, layout);
+  const mismatches: ChecksumMismatch[] = [];
+  const compare = (name: ChecksumName, expected: number) => {
+    if (expected !== actual[name])
+      mismatches.push({ name, expected, actual: actual[name] });
+  };
+  compare("global", dv.getUint16(0x00, true));
+  compare("cib", dv.getUint16(0x0e, true));
+  compare("maskedLow", dv.getUint32(0x10, true));
+  compare("maskedHigh", dv.getUint32(0x14, true));
+  return { ok: mismatches.length === 0, mismatches };
+}
+
+export type WriteOptions = {
+  fill?: string[]; // the solver's entries, saved as the fill grid (and RUSR)
+  // Who filled each square; saved with `teams` in our OWNR/TEAM extensions
+  owners?: Array<number | null>;
+  teams?: Team[];
+  notes?: string;
+};
+
+// WHATWG's "latin1" decoder is really windows-1252, which is what .puz files
+// use; encode 0x80-0x9F through the same table so text read from a file
+// round-trips (curly quotes and dashes are common in clues).
+const CP1252_HIGH = new Map(
+  Array.from(
+    "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ",
+    (ch, i) => [ch, 0x80 + i] as const,
+  ),
+);
+
+function encodeLatin1(text: string): number[] {
+  return Array.from(text, (ch) => {
+    const code = ch.charCodeAt(0);
+    if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) return code;
+    return CP1252_HIGH.get(ch) ?? 0x3f; // "?"
+  });
+}
+
+// Serializes a puzzle as a version 1.3 .puz with valid checksums. Clues are
+// written in the standard interleaved order whatever order the puzzle was read
+// in, multi-letter answers go to GRBS/RTBL, markup to GEXT, and multi-letter
+// fill to RUSR, so Across Lite opens the file with the game's progress intact.
+export function writePuz(puz: ParsedPuz, opts: WriteOptions = {}): Uint8Array {
+  const { width, height, grid } = puz;
+  const gridSize = width * height;
+  const clues = clueSlots(puz.across, puz.down, "interleaved-ad").map(
+    (e) => e.clue,
+  );
+  const fill = grid.map((cell, i) =>
+    cell.isBlock ? "" : (opts.fill?.[i] ?? ""),
+  );
+
+  const out: number[] = new Array(0x34).fill(0);
+  const putString = (at: number, text: string) =>
+    encodeLatin1(text).forEach((b, k) => {
+      out[at + k] = b;
+    });
+  putString(0x02, "ACROSS&DOWN\0");
+  putString(0x18, "1.3\0");
+  out[0x2c] = width;
+  out[0x2d] = height;
+  out[0x2e] = clues.length & 0xff;
+  out[0x2f] = clues.length >> 8;
+  out[0x30] = 0x01; // puzzle type: normal
+
+  for (const cell of grid)
+    out.push(cell.isBlock ? 0x2e : encodeLatin1(cell.solution[0])[0]);
+  for (let i = 0; i < gridSize; i++)
+    out.push(
+      grid[i].isBlock ? 0x2e : fill[i] ? encodeLatin1(fill[i][0])[0] : 0x2d,
+    );
+
+  const stringsStart = out.length;
+  for (const text of [puz.title, puz.author, puz.copyright, ...clues])
+    out.push(...encodeLatin1(text), 0);
+  const notes = Uint8Array.from(encodeLatin1(opts.notes ?? ""));
+  out.push(...notes, 0);
+
+  const section = (title: string, data: Uint8Array) => {
+    out.push(...encodeLatin1(title), data.length & 0xff, data.length >> 8);
+    const sum = checksumRegion(data);
+    out.push(sum & 0xff, sum >> 8, ...data, 0);
   };
+  const rebusWords = [
+    ...new Set(
+      grid
+        .filter((c) => !c.isBlock && c.solution.length > 1)
+        .map((c) => c.solution),
+    ),
+  ];
+  if (rebusWords.length) {
+    section(
+      "GRBS",
+      Uint8Array.from(grid, (c) =>
+        c.isBlock ? 0 : rebusWords.indexOf(c.solution) + 1,
+      ),
+    );
+    section(
+      "RTBL",
+      Uint8Array.from(
+        encodeLatin1(
+          rebusWords
+            .map((word, key) => `${String(key).padStart(2, " ")}:${word};`)
+            .join(""),
+        ),
+      ),
+    );
+  }
+  const markup = grid.map(
+    (c) =>
+      (c.circled ? GEXT_CIRCLED : 0) |
+      (c.revealed ? GEXT_REVEALED : 0) |
+      (c.markedIncorrect ? GEXT_PREVIOUSLY_INCORRECT : 0),
+  );
+  if (markup.some(Boolean)) section("GEXT", Uint8Array.from(markup));
+  if (fill.some((value) => value.length > 1)) {
+    section(
+      "RUSR",
+      Uint8Array.from(
+        fill.flatMap((value) => [
+          ...(value.length > 1 ? encodeLatin1(value) : []),
+          0,
+        ]),
+      ),
+    );
+  }
+  if (opts.owners && opts.teams?.length) {
+    const known = new Set(
+      opts.teams.filter((t) => t.id <= 0xff).map((t) => t.id),
+    );
+    section(
+      "OWNR",
+      Uint8Array.from(grid, (_, i) => {
+        const id = opts.owners?.[i];
+        return id != null && known.has(id) ? id : 0;
+      }),
+    );
+    const table = opts.teams
+      .filter((t) => known.has(t.id))
+      .map((t) => `${t.id}:${t.color}:${t.name.replace(/;/g, ",")};`);
+    section("TEAM", Uint8Array.from(encodeLatin1(table.join(""))));
+  }
+
+  const bytes = Uint8Array.from(out);
+  const sums = computeChecksums(bytes, {
+    gridSize,
+    stringsStart,
+    numClues: clues.length,
+    notes,
+  });
+  const dv = new DataView(bytes.buffer);
+  dv.setUint16(0x00, sums.global, true);
+  dv.setUint16(0x0e, sums.cib, true);
+  dv.setUint32(0x10, sums.maskedLow, true);
+  dv.setUint32(0x14, sums.maskedHigh, true);
+  return bytes;
 }
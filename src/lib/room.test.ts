@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { parsePuzzleText } from "./formats";
+import { type GameAction, HISTORY_LIMIT, teamScores } from "./game";
+import {
+  applyAction,
+  applyPatch,
+  createRoom,
+  type Player,
+  playerState,
+} from "./room";
+
+const PUZZLE = `Title: Test
+
+
+ABC
+DEF
+
+
+A1. First ~ ABC
+A4. Second ~ DEF
+
+D1. Third ~ AD
+D2. Fourth ~ BE
+D3. Fifth ~ CF
+`;
+
+// Runs `actions` in a room as the host, checking that a client following the
+// patches ends up where the server is
+function follow(actions: GameAction[]) {
+  const room = createRoom("ABCD");
+  const host: Player = { id: "h", name: "Host", teamId: null, isHost: true };
+  let client = playerState(room.state);
+  const patches = [];
+  for (const action of actions) {
+    const result = applyAction(room, host, action);
+    if ("error" in result) throw new Error(result.error);
+    if (!result.patch) continue;
+    patches.push(result.patch);
+    client = applyPatch(client, result.patch);
+  }
+  expect(client).toEqual(playerState(room.state));
+  return { room, client, patches };
+}
+
+const setup: GameAction[] = [
+  { type: "load", puz: parsePuzzleText(PUZZLE) },
+  { type: "addTeam", name: "One", color: "#f00" },
+  { type: "addTeam", name: "Two", color: "#00f" },
+  { type: "selectTeam", id: 1 },
+  { type: "start" },
+];
+
+describe("patches", () => {
+  it("never carry the answers", () => {
+    const { room, client, patches } = follow(setup);
+    expect(room.state.puz?.grid[0].solution).toBe("A");
+    expect(client.puz?.grid.every((c) => c.isBlock || !c.solution)).toBe(true);
+    expect(JSON.stringify(patches)).not.toMatch(/"solution":"[A-Z]/);
+  });
+
+  it("still let clients score the board", () => {
+    const { room, client } = follow([
+      ...setup,
+      { type: "input", index: 0, value: "A" },
+      { type: "input", index: 1, value: "B" },
+      { type: "check" },
+    ]);
+    expect(client.status.slice(0, 2)).toEqual(["correct", "correct"]);
+    expect(teamScores(client)).toEqual(teamScores(room.state));
+  });
+
+  it("send the undo stacks as edits, not whole", () => {
+    const typing: GameAction[] = [...Array(HISTORY_LIMIT + 3)].map((_, i) => ({
+      type: "input",
+      index: i % 6,
+      value: "ABCDEF"[(i + 1) % 6],
+    }));
+    const { client, patches } = follow([
+      ...setup,
+      ...typing,
+      { type: "undo" },
+      { type: "undo" },
+      { type: "redo" },
+      { type: "input", index: 0, value: "Z" },
+    ]);
+    expect(client.history).toHaveLength(HISTORY_LIMIT);
+    expect(client.future).toHaveLength(0);
+    for (const patch of patches.slice(setup.length)) {
+      expect(patch.set.history).toBeUndefined();
+      expect(patch.set.future).toBeUndefined();
+      expect(patch.history?.push.length ?? 0).toBeLessThanOrEqual(1);
+    }
+  });
+});
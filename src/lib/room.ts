@@ -0,0 +1,294 @@
+import type { GameEvent } from "./events";
+import {
+  type CellStatus,
+  type GameAction,
+  type GameState,
+  gameReducer,
+  type HistoryEntry,
+  initialGameState,
+} from "./game";
+import type { ParsedPuz } from "./puz";
+
+// Shared between the room server and browser clients. The server owns the
+// authoritative GameState for each room and runs every action through the same
+// gameReducer the single-screen game uses; clients only ever apply patches.
+// Clients never see the answers: every check is graded on the server.
+
+export type Player = {
+  id: string;
+  name: string;
+  teamId: number | null;
+  isHost: boolean;
+};
+
+export type Room = {
+  code: string;
+  state: GameState;
+  version: number; // bumped once per applied action
+  players: Player[];
+};
+
+// Per-cell arrays are sent as [index, value] pairs, new log events on their
+// own and the undo stacks as edits at either end; any other top-level field
+// that changed is sent whole.
+export type StatePatch = {
+  version: number;
+  set: Partial<GameState>;
+  cells?: Array<[number, string]>;
+  status?: Array<[number, CellStatus]>;
+  owners?: Array<[number, number | null]>;
+  events?: GameEvent[]; // appended to the log
+  history?: StackEdit<HistoryEntry>;
+  future?: StackEdit<HistoryEntry>;
+};
+
+// Drop `shift` entries off the front and `pop` off the end, then add `push`
+export type StackEdit<T> = { shift: number; pop: number; push: T[] };
+
+export type ClientMessage =
+  | { type: "create"; name: string }
+  | { type: "join"; code: string; name: string }
+  // Follow a room's game without playing in it (the spectator display)
+  | { type: "watch"; code: string }
+  | { type: "pickTeam"; teamId: number | null }
+  | { type: "action"; action: GameAction }
+  | { type: "sync" };
+
+export type ServerMessage =
+  | {
+      type: "welcome";
+      code: string;
+      playerId: string | null; // null when only watching
+      version: number;
+      state: GameState;
+      players: Player[];
+    }
+  | { type: "patch"; patch: StatePatch }
+  | { type: "players"; players: Player[] }
+  | { type: "error"; message: string };
+
+// No vowels or look-alike characters, so codes are easy to read aloud and
+// never spell anything.
+const CODE_ALPHABET = "BCDFGHJKLMNPQRSTVWXZ";
+const CODE_LENGTH = 4;
+
+export function generateRoomCode(
+  taken: { has: (code: string) => boolean },
+  random: () => number = Math.random,
+): string {
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)];
+    }
+    if (!taken.has(code)) return code;
+  }
+}
+
+export function normalizeRoomCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z]/g, "");
+}
+
+export function createRoom(code: string): Room {
+  return { code, state: initialGameState(), version: 0, players: [] };
+}
+
+const HOST_ACTIONS: ReadonlySet<GameAction["type"]> = new Set([
+  "load",
+  "restore",
+  "addTeam",
+  "setClueOrder",
+  "configure",
+  "selectTeam",
+  "start",
+  "pause",
+  "resume",
+  "openClue",
+  "skipTurn",
+  "adjustScore",
+  "reopenCell",
+  "endGame",
+]);
+
+// The shot clock is enforced by the server's own timer (see expireTurn)
+const SERVER_ACTIONS: ReadonlySet<GameAction["type"]> = new Set(["expire"]);
+
+const TURN_ACTIONS: ReadonlySet<GameAction["type"]> = new Set([
+  "claim",
+  "input",
+  "clear",
+  "check",
+  "revealLetter",
+  "revealWord",
+  "checkWord",
+  "undo",
+  "redo",
+]);
+
+// Returns why `player` may not perform `action`, or null when allowed. Board
+// moves belong to whoever is on the team whose turn it is; the host may also
+// press Check for everyone, as on the single-screen version.
+export function rejectReason(
+  room: Room,
+  player: Player,
+  action: GameAction,
+): string | null {
+  if (SERVER_ACTIONS.has(action.type)) return "Only the server can do that";
+  if (HOST_ACTIONS.has(action.type) && !player.isHost) {
+    return "Only the host can do that";
+  }
+  // The host may edit any team; players only their own
+  if (
+    action.type === "updateTeam" &&
+    !player.isHost &&
+    action.id !== player.teamId
+  ) {
+    return "That's not your team";
+  }
+  // Each player buzzes for their own team
+  if (action.type === "buzz" && action.teamId !== player.teamId) {
+    return player.teamId == null ? "Pick a team first" : "That's not your team";
+  }
+  if (TURN_ACTIONS.has(action.type)) {
+    if (action.type === "check" && player.isHost) return null;
+    if (player.teamId == null) return "Pick a team first";
+    if (player.teamId !== room.state.currentTeamId) {
+      return "It is not your team's turn";
+    }
+  }
+  return null;
+}
+
+function diffIndexed<T>(prev: T[], next: T[]): Array<[number, T]> | null {
+  if (prev.length !== next.length) return null;
+  const out: Array<[number, T]> = [];
+  next.forEach((v, i) => {
+    if (prev[i] !== v) out.push([i, v]);
+  });
+  return out;
+}
+
+// Whether `next` is `prev` with events added on the end
+function appendsTo(prev: GameEvent[], next: GameEvent[]): boolean {
+  return (
+    next.length > prev.length &&
+    (prev.length === 0 || next[prev.length - 1] === prev[prev.length - 1])
+  );
+}
+
+// The puzzle as players get it, with the answer key blanked out
+export function hideSolutions(puz: ParsedPuz): ParsedPuz {
+  const grid = puz.grid.map((c) => ({
+    ...c,
+    solution: c.isBlock ? c.solution : "",
+  }));
+  const entries = (list: ParsedPuz["across"]) =>
+    list.map((e) => ({ ...e, cells: e.cells.map((c) => grid[c.index]) }));
+  return { ...puz, grid, across: entries(puz.across), down: entries(puz.down) };
+}
+
+// The room's state as sent to players and watchers
+export function playerState(state: GameState): GameState {
+  return state.puz ? { ...state, puz: hideSolutions(state.puz) } : state;
+}
+
+function diffStack<T>(prev: T[], next: T[]): StackEdit<T> {
+  const start = next.length ? prev.indexOf(next[0]) : -1;
+  const shift = start < 0 ? prev.length : start;
+  let kept = 0;
+  while (
+    shift + kept < prev.length &&
+    kept < next.length &&
+    prev[shift + kept] === next[kept]
+  ) {
+    kept++;
+  }
+  return { shift, pop: prev.length - shift - kept, push: next.slice(kept) };
+}
+
+const applyStack = <T>(list: T[], edit: StackEdit<T>): T[] => [
+  ...list.slice(edit.shift, list.length - edit.pop),
+  ...edit.push,
+];
+
+export function diffState(
+  prev: GameState,
+  next: GameState,
+  version: number,
+): StatePatch {
+  const patch: StatePatch = { version, set: {} };
+  const set = patch.set as Record<string, unknown>;
+  for (const key of Object.keys(next) as Array<keyof GameState>) {
+    if (prev[key] === next[key]) continue;
+    if (key === "cells" || key === "status" || key === "owners") {
+      const changes = diffIndexed<unknown>(prev[key], next[key]);
+      if (changes) {
+        (patch as Record<string, unknown>)[key] = changes;
+        continue;
+      }
+    }
+    if (key === "events" && appendsTo(prev.events, next.events)) {
+      patch.events = next.events.slice(prev.events.length);
+      continue;
+    }
+    if (key === "history" || key === "future") {
+      patch[key] = diffStack(prev[key], next[key]);
+      continue;
+    }
+    set[key] = key === "puz" && next.puz ? hideSolutions(next.puz) : next[key];
+  }
+  return patch;
+}
+
+export function applyPatch(state: GameState, patch: StatePatch): GameState {
+  const next: GameState = { ...state, ...patch.set };
+  if (patch.cells) {
+    next.cells = next.cells.slice();
+    for (const [i, v] of patch.cells) next.cells[i] = v;
+  }
+  if (patch.status) {
+    next.status = next.status.slice();
+    for (const [i, v] of patch.status) next.status[i] = v;
+  }
+  if (patch.owners) {
+    next.owners = next.owners.slice();
+    for (const [i, v] of patch.owners) next.owners[i] = v;
+  }
+  if (patch.events) next.events = [...next.events, ...patch.events];
+  if (patch.history) next.history = applyStack(next.history, patch.history);
+  if (patch.future) next.future = applyStack(next.future, patch.future);
+  return next;
+}
+
+// Runs `action` for `player` against the room. Returns the patch to broadcast,
+// null when the action was a no-op, or an error message for the sender.
+export function applyAction(
+  room: Room,
+  player: Player,
+  action: GameAction,
+): { patch: StatePatch | null } | { error: string } {
+  const reason = rejectReason(room, player, action);
+  if (reason) return { error: reason };
+  const prev = room.state;
+  // Clocks run on server time, whatever the sender's clock says
+  const next = gameReducer(prev, { ...action, at: Date.now() });
+  if (next === prev) return { patch: null };
+  room.state = next;
+  room.version++;
+  // A host who creates a team while unassigned plays for it
+  if (action.type === "addTeam" && player.teamId == null) {
+    player.teamId = prev.nextTeamId;
+  }
+  return { patch: diffState(prev, next, room.version) };
+}
+
+// Passes the turn when the shot clock has run out. The room server calls this
+// on a timer; returns the patch to broadcast, or null when nothing changed.
+export function expireTurn(room: Room, now: number): StatePatch | null {
+  const prev = room.state;
+  const next = gameReducer(prev, { type: "expire", at: now });
+  if (next === prev) return null;
+  room.state = next;
+  room.version++;
+  return diffState(prev, next, room.version);
+}
@@ -0,0 +1,83 @@
+import type { GameState } from "./game";
+
+// Saved games live in localStorage, one key per puzzle. The id is the SHA-256
+// of the uploaded file, so re-uploading the same .puz finds its save again.
+
+export type SavedGame = {
+  id: string;
+  title: string;
+  savedAt: number; // epoch ms
+  state: GameState;
+};
+
+const KEY_PREFIX = "team-crossword:game:";
+
+export async function sha256Hex(buf: ArrayBuffer): Promise<string> {
+  const d = await crypto.subtle.digest("SHA-256", buf);
+  return Array.from(new Uint8Array(d))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// crypto.subtle only exists in secure contexts, so a game served over plain
+// http on the LAN falls back to a cheaper (non-cryptographic) FNV-1a hash.
+export async function puzzleId(buf: ArrayBuffer): Promise<string> {
+  try {
+    return await sha256Hex(buf);
+  } catch {
+    let h = 0x811c9dc5;
+    for (const b of new Uint8Array(buf)) {
+      h ^= b;
+      h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    return `fnv-${h.toString(16).padStart(8, "0")}-${buf.byteLength}`;
+  }
+}
+
+export function listSaves(storage: Storage = localStorage): SavedGame[] {
+  const saves: SavedGame[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (!key?.startsWith(KEY_PREFIX)) continue;
+    const save = readSave(key.slice(KEY_PREFIX.length), storage);
+    if (save) saves.push(save);
+  }
+  return saves.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export function readSave(
+  id: string,
+  storage: Storage = localStorage,
+): SavedGame | null {
+  const raw = storage.getItem(KEY_PREFIX + id);
+  if (!raw) return null;
+  try {
+    const save = JSON.parse(raw) as SavedGame;
+    return save?.state?.puz ? save : null;
+  } catch {
+    return null; // corrupt entry; ignore rather than break the upload screen
+  }
+}
+
+export function writeSave(
+  id: string,
+  state: GameState,
+  storage: Storage = localStorage,
+): void {
+  const save: SavedGame = {
+    id,
+    title: state.puz?.title || "Untitled puzzle",
+    savedAt: Date.now(),
+    state,
+  };
+  try {
+    storage.setItem(KEY_PREFIX + id, JSON.stringify(save));
+  } catch (err) {
+    // Quota exceeded or storage disabled; the game itself keeps working
+    console.warn("[saves] could not save game", err);
+  }
+}
+
+export function deleteSave(id: string, storage: Storage = localStorage): void {
+  storage.removeItem(KEY_PREFIX + id);
+}
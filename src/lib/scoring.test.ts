@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest";
+import type { CellStatus, GameState } from "./game";
+import { type Cell, type ParsedPuz, puzzleFromClues } from "./puz";
+import {
+  leadingTeams,
+  SCORING_PRESETS,
+  type ScoringRules,
+  scoreBreakdown,
+  scoringPreset,
+  totalScore,
+} from "./scoring";
+
+// Rows of solutions, "." for a block; "*" in front of a square circles it
+function puzzle(rows: string[][]): ParsedPuz {
+  const width = rows[0].length;
+  const grid: Cell[] = rows.flat().map((raw, index) => {
+    const circled = raw.startsWith("*");
+    const solution = circled ? raw.slice(1) : raw;
+    return {
+      row: Math.floor(index / width),
+      col: index % width,
+      index,
+      isBlock: solution === ".",
+      solution,
+      circled,
+    };
+  });
+  return puzzleFromClues(
+    {
+      width,
+      height: rows.length,
+      title: "Test",
+      author: "",
+      copyright: "",
+      format: "xd",
+    },
+    grid,
+    { across: new Map(), down: new Map() },
+  );
+}
+
+type Input = Parameters<typeof scoreBreakdown>[0];
+
+// Every square filled in and correct unless `status` says otherwise; two
+// teams, 1 and 2
+function input(
+  puz: ParsedPuz,
+  owners: Array<number | null>,
+  extra: Partial<GameState> = {},
+): Input {
+  return {
+    puz,
+    cells: puz.grid.map((c) => (c.isBlock ? "" : c.solution)),
+    status: puz.grid.map(
+      (c): CellStatus => (c.isBlock ? "unchecked" : "correct"),
+    ),
+    owners,
+    teams: [
+      { id: 1, name: "One", color: "#f00" },
+      { id: 2, name: "Two", color: "#00f" },
+    ],
+    bonuses: {},
+    wrongGuesses: {},
+    hints: {},
+    stolen: {},
+    adjustments: {},
+    ...extra,
+  };
+}
+
+const none: ScoringRules = {
+  letter: 0,
+  word: 0,
+  soloWord: 0,
+  crossing: 0,
+  wrongGuess: 0,
+  themeMultiplier: 1,
+  steal: 0,
+};
+
+const square = puzzle([
+  ["A", "B"],
+  ["C", "D"],
+]);
+
+describe("letters", () => {
+  it("scores each correct square for the team that typed it", () => {
+    const scores = scoreBreakdown(input(square, [1, 1, 2, null]), {
+      ...none,
+      letter: 2,
+    });
+    expect(scores.get(1)?.letters).toBe(4);
+    expect(scores.get(2)?.letters).toBe(2);
+  });
+
+  it("counts each letter of a rebus square", () => {
+    const puz = puzzle([["ONE", "B"]]);
+    const scores = scoreBreakdown(input(puz, [1, 2]), { ...none, letter: 1 });
+    expect(scores.get(1)?.letters).toBe(3);
+    expect(scores.get(2)?.letters).toBe(1);
+  });
+
+  it("gives nothing for squares that aren't correct", () => {
+    const base = input(square, [1, 1, 1, 1]);
+    const status: CellStatus[] = [
+      "correct",
+      "incorrect",
+      "unchecked",
+      "correct",
+    ];
+    const scores = scoreBreakdown({ ...base, status }, { ...none, letter: 1 });
+    expect(scores.get(1)?.letters).toBe(2);
+  });
+
+  it("gives nothing for revealed squares, which nobody owns", () => {
+    const scores = scoreBreakdown(input(square, [null, null, null, null]), {
+      ...SCORING_PRESETS.league,
+    });
+    for (const breakdown of scores.values())
+      expect(totalScore(breakdown)).toBe(0);
+  });
+});
+
+describe("words", () => {
+  it("credits every team tied for most of an answer", () => {
+    const across = square.across[0];
+    expect(leadingTeams({ owners: [1, 2, null, null] }, across).sort()).toEqual(
+      [1, 2],
+    );
+    const scores = scoreBreakdown(input(square, [1, 2, 1, 1]), {
+      ...none,
+      word: 3,
+    });
+    // 1 Across tied; 3 Across, 1 Down to team 1; 2 Down tied
+    expect(scores.get(1)?.words).toBe(12);
+    expect(scores.get(2)?.words).toBe(6);
+  });
+
+  it("credits nobody for an answer made only of revealed squares", () => {
+    expect(leadingTeams({ owners: [null, null] }, square.across[0])).toEqual(
+      [],
+    );
+  });
+
+  it("adds the solo bonus only when one team typed it all", () => {
+    const scores = scoreBreakdown(input(square, [1, 1, 1, 2]), {
+      ...none,
+      soloWord: 2,
+    });
+    expect(scores.get(1)?.soloWords).toBe(4); // 1 Across, 1 Down
+    expect(scores.get(2)?.soloWords).toBe(0);
+  });
+
+  it("skips unsolved answers", () => {
+    const base = input(square, [1, 1, 1, 1]);
+    const status: CellStatus[] = ["correct", "incorrect", "correct", "correct"];
+    const scores = scoreBreakdown({ ...base, status }, { ...none, word: 1 });
+    expect(scores.get(1)?.words).toBe(2); // 3 Across, 1 Down
+  });
+});
+
+describe("theme entries", () => {
+  const themed = puzzle([
+    ["*A", "*B"],
+    [".", "C"],
+  ]);
+
+  it("multiplies letter points in circled answers", () => {
+    const scores = scoreBreakdown(input(themed, [1, 1, null, 2]), {
+      ...none,
+      letter: 1,
+      themeMultiplier: 3,
+    });
+    expect(scores.get(1)?.letters).toBe(2);
+    expect(scores.get(1)?.theme).toBe(4);
+    // 2 Down crosses the circles, so its squares are theme squares too
+    expect(scores.get(2)?.theme).toBe(2);
+  });
+
+  it("multiplies word points in circled answers", () => {
+    const scores = scoreBreakdown(input(themed, [1, 1, null, 1]), {
+      ...none,
+      word: 2,
+      themeMultiplier: 2,
+    });
+    expect(scores.get(1)?.words).toBe(4); // 1 Across and 2 Down
+    expect(scores.get(1)?.theme).toBe(4);
+  });
+});
+
+describe("crossings", () => {
+  it("scores squares whose Across and Down are both solved", () => {
+    const base = input(square, [1, 2, 1, 2]);
+    const status: CellStatus[] = ["correct", "correct", "correct", "incorrect"];
+    const scores = scoreBreakdown(
+      { ...base, status },
+      { ...none, crossing: 1 },
+    );
+    // Only square 0: 1 Across and 1 Down are solved
+    expect(scores.get(1)?.crossings).toBe(1);
+    expect(scores.get(2)?.crossings).toBe(0);
+  });
+});
+
+describe("tallies", () => {
+  it("takes off wrong guesses and adds steals per team", () => {
+    const scores = scoreBreakdown(
+      input(square, [null, null, null, null], {
+        wrongGuesses: { 1: 3 },
+        stolen: { 2: 2 },
+      }),
+      { ...none, wrongGuess: 2, steal: 5 },
+    );
+    expect(scores.get(1)?.wrongGuesses).toBe(-6);
+    expect(scores.get(2)?.steals).toBe(10);
+  });
+
+  it("drops teams no longer on the roster", () => {
+    const scores = scoreBreakdown(
+      input(square, [1, 9, 9, 9], { adjustments: { 9: 5 }, stolen: { 9: 1 } }),
+      SCORING_PRESETS.league,
+    );
+    expect([...scores.keys()]).toEqual([1, 2]);
+  });
+});
+
+describe("scoringPreset", () => {
+  it("round-trips every preset", () => {
+    for (const [name, rules] of Object.entries(SCORING_PRESETS)) {
+      expect(scoringPreset({ ...rules })).toBe(name);
+    }
+  });
+
+  it("is null for custom rules", () => {
+    expect(scoringPreset({ ...SCORING_PRESETS.classic, letter: 4 })).toBeNull();
+  });
+});
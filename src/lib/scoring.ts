@@ -0,0 +1,257 @@
+import type { GameState } from "./game";
+import type { ClueEntry, ParsedPuz } from "./puz";
+
+// Scoring rules the host picks before Start. Every rule is a pure function of
+// the board (who typed each square, what has been graded correct) plus the
+// per-team tallies the engine keeps, so scores can be recomputed at any time
+// and always agree between the single-screen game and a room's players.
+
+export type ScoringRules = {
+  letter: number; // per correct letter a team typed; a rebus square counts each
+  word: number; // per solved entry, to the team that typed most of it
+  soloWord: number; // extra per solved entry a single team typed entirely
+  crossing: number; // per correct square whose Across and Down are both solved
+  wrongGuess: number; // taken off per letter of the team's graded wrong
+  themeMultiplier: number; // letter and word points in theme entries
+  steal: number; // per answer stolen, when steal rounds are on
+};
+
+export type ScoringPreset = "classic" | "words" | "league";
+
+export const SCORING_PRESETS: Record<ScoringPreset, ScoringRules> = {
+  // One point per letter, as the game has always scored
+  classic: {
+    letter: 1,
+    word: 0,
+    soloWord: 0,
+    crossing: 0,
+    wrongGuess: 0,
+    themeMultiplier: 1,
+    steal: 2,
+  },
+  words: {
+    letter: 0,
+    word: 3,
+    soloWord: 2,
+    crossing: 0,
+    wrongGuess: 0,
+    themeMultiplier: 1,
+    steal: 2,
+  },
+  league: {
+    letter: 1,
+    word: 2,
+    soloWord: 2,
+    crossing: 1,
+    wrongGuess: 1,
+    themeMultiplier: 2,
+    steal: 3,
+  },
+};
+
+export const SCORE_LINES = [
+  "letters",
+  "words",
+  "soloWords",
+  "crossings",
+  "theme",
+  "speed",
+  "steals",
+  "wrongGuesses",
+  "hints",
+  "adjustments",
+] as const;
+
+export type ScoreLine = (typeof SCORE_LINES)[number];
+
+export type ScoreBreakdown = Record<ScoreLine, number>;
+
+type ScoringInput = Pick<
+  GameState,
+  | "puz"
+  | "cells"
+  | "status"
+  | "owners"
+  | "teams"
+  | "bonuses"
+  | "wrongGuesses"
+  | "hints"
+  | "stolen"
+  | "adjustments"
+>;
+
+type Rule = (
+  input: ScoringInput,
+  rules: ScoringRules,
+  add: (teamId: number, line: ScoreLine, points: number) => void,
+) => void;
+
+const solved = (input: ScoringInput, entry: ClueEntry) =>
+  entry.cells.length > 0 &&
+  entry.cells.every((c) => input.status[c.index] === "correct");
+
+// Theme entries are the ones with circled squares; in a puzzle without
+// circles, its longest entries (7 letters or more)
+export function themeEntries(puz: ParsedPuz): Set<ClueEntry> {
+  const entries = [...puz.across, ...puz.down];
+  const circled = entries.filter((e) => e.cells.some((c) => c.circled));
+  if (circled.length) return new Set(circled);
+  const longest = Math.max(0, ...entries.map((e) => e.cells.length));
+  if (longest < 7) return new Set();
+  return new Set(entries.filter((e) => e.cells.length === longest));
+}
+
+// Teams owning the most squares of `entry`; every team tied for most
+export function leadingTeams(
+  input: Pick<ScoringInput, "owners">,
+  entry: ClueEntry,
+): number[] {
+  const counts = new Map<number, number>();
+  for (const c of entry.cells) {
+    const owner = input.owners[c.index];
+    if (owner != null) counts.set(owner, (counts.get(owner) ?? 0) + 1);
+  }
+  const most = Math.max(0, ...counts.values());
+  return [...counts].filter(([, n]) => n === most).map(([id]) => id);
+}
+
+const letterRule: Rule = (input, rules, add) => {
+  const { puz } = input;
+  if (!puz || !rules.letter) return;
+  const theme = new Set(
+    [...themeEntries(puz)].flatMap((e) => e.cells.map((c) => c.index)),
+  );
+  input.status.forEach((s, i) => {
+    const owner = input.owners[i];
+    if (s !== "correct" || owner == null) return;
+    // A correct square holds its answer, so this counts a rebus's letters
+    const points = (input.cells[i]?.length || 1) * rules.letter;
+    add(owner, "letters", points);
+    if (theme.has(i)) add(owner, "theme", points * (rules.themeMultiplier - 1));
+  });
+};
+
+const wordRule: Rule = (input, rules, add) => {
+  const { puz } = input;
+  if (!puz || !rules.word) return;
+  const theme = themeEntries(puz);
+  for (const entry of [...puz.across, ...puz.down]) {
+    if (!solved(input, entry)) continue;
+    for (const id of leadingTeams(input, entry)) {
+      add(id, "words", rules.word);
+      if (theme.has(entry)) {
+        add(id, "theme", rules.word * (rules.themeMultiplier - 1));
+      }
+    }
+  }
+};
+
+const soloWordRule: Rule = (input, rules, add) => {
+  const { puz } = input;
+  if (!puz || !rules.soloWord) return;
+  for (const entry of [...puz.across, ...puz.down]) {
+    if (!solved(input, entry)) continue;
+    const owner = input.owners[entry.cells[0].index];
+    if (owner == null) continue;
+    if (entry.cells.every((c) => input.owners[c.index] === owner)) {
+      add(owner, "soloWords", rules.soloWord);
+    }
+  }
+};
+
+const crossingRule: Rule = (input, rules, add) => {
+  const { puz } = input;
+  if (!puz || !rules.crossing) return;
+  const solvedAcross = new Set<number>();
+  for (const e of puz.across) {
+    if (solved(input, e)) for (const c of e.cells) solvedAcross.add(c.index);
+  }
+  for (const e of puz.down) {
+    if (!solved(input, e)) continue;
+    for (const c of e.cells) {
+      const owner = input.owners[c.index];
+      if (owner != null && solvedAcross.has(c.index)) {
+        add(owner, "crossings", rules.crossing);
+      }
+    }
+  }
+};
+
+const wrongGuessRule: Rule = (input, rules, add) => {
+  if (!rules.wrongGuess) return;
+  for (const [id, wrong] of Object.entries(input.wrongGuesses)) {
+    add(Number(id), "wrongGuesses", -wrong * rules.wrongGuess);
+  }
+};
+
+const stealRule: Rule = (input, rules, add) => {
+  if (!rules.steal) return;
+  for (const [id, stolen] of Object.entries(input.stolen)) {
+    add(Number(id), "steals", stolen * rules.steal);
+  }
+};
+
+// Speed bonuses are earned at check time (see the speedBonus setting) and
+// kept by the engine, whatever the scoring rules
+const speedRule: Rule = (input, _rules, add) => {
+  for (const [id, bonus] of Object.entries(input.bonuses)) {
+    add(Number(id), "speed", bonus);
+  }
+};
+
+// Hints are paid for when they're used (see HintCosts)
+const hintRule: Rule = (input, _rules, add) => {
+  for (const [id, usage] of Object.entries(input.hints)) {
+    add(Number(id), "hints", -usage.points);
+  }
+};
+
+// Corrections the host made by hand, with a reason, during play
+const adjustmentRule: Rule = (input, _rules, add) => {
+  for (const [id, points] of Object.entries(input.adjustments)) {
+    add(Number(id), "adjustments", points);
+  }
+};
+
+const RULES: Rule[] = [
+  letterRule,
+  wordRule,
+  soloWordRule,
+  crossingRule,
+  stealRule,
+  wrongGuessRule,
+  speedRule,
+  hintRule,
+  adjustmentRule,
+];
+
+const emptyBreakdown = (): ScoreBreakdown =>
+  Object.fromEntries(SCORE_LINES.map((line) => [line, 0])) as ScoreBreakdown;
+
+// teamId -> points per score line. Teams no longer on the roster are dropped.
+export function scoreBreakdown(
+  input: ScoringInput,
+  rules: ScoringRules,
+): Map<number, ScoreBreakdown> {
+  const map = new Map<number, ScoreBreakdown>();
+  for (const t of input.teams) map.set(t.id, emptyBreakdown());
+  const add = (teamId: number, line: ScoreLine, points: number) => {
+    const breakdown = map.get(teamId);
+    if (breakdown && points) breakdown[line] += points;
+  };
+  for (const rule of RULES) rule(input, rules, add);
+  return map;
+}
+
+export function totalScore(breakdown: ScoreBreakdown): number {
+  return SCORE_LINES.reduce((sum, line) => sum + breakdown[line], 0);
+}
+
+// The preset `rules` match exactly, if any
+export function scoringPreset(rules: ScoringRules): ScoringPreset | null {
+  const keys = Object.keys(rules) as Array<keyof ScoringRules>;
+  const match = (Object.keys(SCORING_PRESETS) as ScoringPreset[]).find((p) =>
+    keys.every((k) => SCORING_PRESETS[p][k] === rules[k]),
+  );
+  return match ?? null;
+}
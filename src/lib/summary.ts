@@ -0,0 +1,121 @@
+import { type GameState, gameTime, isEntrySolved, teamScores } from "./game";
+import { leadingTeams } from "./scoring";
+
+// The end-of-game numbers: who won, and per team what it solved, what it cost
+// and how long it took. Everything comes from the finished board plus the
+// engine's tallies and event log, so any finished game can be summarised.
+
+export type TeamSummary = {
+  teamId: number;
+  name: string;
+  color: string;
+  score: number;
+  letters: number; // squares the team typed that were graded correct
+  words: number; // solved answers the team typed most of; ties count for each
+  hints: number; // hints bought, of every kind
+  wrongGuesses: number; // letters of the team's graded wrong
+  turnMs: number; // time on turn, from the event log
+  msPerWord: number | null; // turnMs over words, once it has solved any
+};
+
+export type GameSummary = {
+  title: string;
+  elapsedMs: number;
+  winners: number[]; // every team tied for the top score
+  teams: TeamSummary[];
+};
+
+// Game time each team spent on turn. Time with nobody on turn (waiting for a
+// buzz) counts for no one.
+function turnTimes(state: GameState, endMs: number): Map<number, number> {
+  const times = new Map<number, number>();
+  let team: number | null = null;
+  let since = 0;
+  const close = (atMs: number) => {
+    if (team != null) times.set(team, (times.get(team) ?? 0) + atMs - since);
+  };
+  for (const event of state.events) {
+    if (event.type !== "turn") continue;
+    close(event.atMs);
+    team = event.to;
+    since = event.atMs;
+  }
+  close(endMs);
+  return times;
+}
+
+export function gameSummary(
+  state: GameState,
+  now: number = Date.now(),
+): GameSummary {
+  const { puz } = state;
+  const elapsedMs = gameTime(state.clock, now);
+  const scores = teamScores(state);
+  const times = turnTimes(state, elapsedMs);
+  const letters = new Map<number, number>();
+  state.status.forEach((s, i) => {
+    const owner = state.owners[i];
+    if (s === "correct" && owner != null) {
+      letters.set(owner, (letters.get(owner) ?? 0) + 1);
+    }
+  });
+  const words = new Map<number, number>();
+  for (const entry of puz ? [...puz.across, ...puz.down] : []) {
+    if (!isEntrySolved(entry.cells, state.status)) continue;
+    for (const id of leadingTeams(state, entry)) {
+      words.set(id, (words.get(id) ?? 0) + 1);
+    }
+  }
+  const teams = state.teams.map((t): TeamSummary => {
+    const hints = state.hints[t.id];
+    const solved = words.get(t.id) ?? 0;
+    const turnMs = times.get(t.id) ?? 0;
+    return {
+      teamId: t.id,
+      name: t.name,
+      color: t.color,
+      score: scores.get(t.id) ?? 0,
+      letters: letters.get(t.id) ?? 0,
+      words: solved,
+      hints: hints ? hints.letters + hints.words + hints.checks : 0,
+      wrongGuesses: state.wrongGuesses[t.id] ?? 0,
+      turnMs,
+      msPerWord: solved ? Math.round(turnMs / solved) : null,
+    };
+  });
+  const top = Math.max(...teams.map((t) => t.score));
+  return {
+    title: puz?.title || "Untitled puzzle",
+    elapsedMs,
+    winners: teams.filter((t) => t.score === top).map((t) => t.teamId),
+    teams,
+  };
+}
+
+const CSV_COLUMNS: Array<[string, (t: TeamSummary) => string | number]> = [
+  ["Team", (t) => t.name],
+  ["Score", (t) => t.score],
+  ["Letters", (t) => t.letters],
+  ["Words", (t) => t.words],
+  ["Hints", (t) => t.hints],
+  ["Wrong letters", (t) => t.wrongGuesses],
+  ["Seconds on turn", (t) => Math.round(t.turnMs / 1000)],
+  [
+    "Seconds per word",
+    (t) => (t.msPerWord == null ? "" : (t.msPerWord / 1000).toFixed(1)),
+  ],
+];
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per team, for pasting into a spreadsheet
+export function summaryCsv(summary: GameSummary): string {
+  const rows = [
+    CSV_COLUMNS.map(([name]) => name),
+    ...summary.teams.map((t) => CSV_COLUMNS.map(([, value]) => value(t))),
+  ];
+  return `${rows.map((row) => row.map(csvField).join(",")).join("\n")}\n`;
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { parsePuzzleText } from "./formats";
+import { initialGameState, type Team } from "./game";
+import {
+  addRound,
+  createTournament,
+  nextRound,
+  readTournament,
+  recordRound,
+  removeRound,
+  setRoster,
+  setRoundWeight,
+  standings,
+  type Tournament,
+  writeTournament,
+} from "./tournament";
+
+const teams: Team[] = [
+  { id: 1, name: "One", color: "#f00" },
+  { id: 2, name: "Two", color: "#00f" },
+];
+
+const puz = parsePuzzleText(`Title: Test
+
+
+AB
+CD
+
+
+A1. x ~ AB
+A3. y ~ CD
+
+D1. z ~ AC
+D2. w ~ BD
+`);
+
+// A tournament of `count` rounds with the roster set
+function league(count: number): Tournament {
+  let tournament = createTournament("League", teams);
+  for (let i = 0; i < count; i++) {
+    tournament = addRound(tournament, `puz-${i}`, puz);
+  }
+  return tournament;
+}
+
+// Plays round `index` to the given scores by team id
+function play(
+  tournament: Tournament,
+  index: number,
+  scores: Record<number, number>,
+): Tournament {
+  const game = { ...initialGameState(), teams };
+  return recordRound(
+    { ...tournament, current: index },
+    game,
+    new Map(Object.entries(scores).map(([id, s]) => [Number(id), s])),
+  );
+}
+
+// Just enough of localStorage for readTournament/writeTournament
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (i) => [...items.keys()][i] ?? null,
+    removeItem: (key) => items.delete(key),
+    setItem: (key, value) => items.set(key, value),
+  };
+}
+
+describe("roster", () => {
+  it("is kept from the start of the tournament", () => {
+    const tournament = createTournament("League", teams);
+    expect(standings(tournament).map((s) => s.team.id)).toEqual([1, 2]);
+  });
+
+  it("follows the round being played", () => {
+    const tournament = createTournament("League");
+    const rostered = setRoster(tournament, teams);
+    expect(rostered.teams).toEqual(teams);
+    expect(setRoster(rostered, [...teams])).toBe(rostered);
+    expect(standings(rostered).every((s) => s.total === 0)).toBe(true);
+  });
+});
+
+describe("standings", () => {
+  it("add up each round's scores times its weight", () => {
+    let tournament = setRoundWeight(league(2), 1, 2);
+    tournament = play(tournament, 0, { 1: 10, 2: 4 });
+    tournament = play(tournament, 1, { 1: 1, 2: 6 });
+    expect(
+      standings(tournament).map((s) => [s.team.id, s.total, s.rounds]),
+    ).toEqual([
+      [2, 16, [4, 6]],
+      [1, 12, [10, 1]],
+    ]);
+  });
+
+  it("leave unplayed rounds out", () => {
+    const tournament = play(league(2), 1, { 1: 3 });
+    expect(standings(tournament)[0].rounds).toEqual([null, 3]);
+    expect(standings(tournament)[1].rounds).toEqual([null, 0]);
+  });
+
+  it("ignore weights that make no sense", () => {
+    const tournament = league(1);
+    expect(setRoundWeight(tournament, 0, -1)).toBe(tournament);
+    expect(setRoundWeight(tournament, 0, Number.NaN)).toBe(tournament);
+  });
+});
+
+describe("rounds", () => {
+  it("replace their scores when played again", () => {
+    let tournament = play(league(1), 0, { 1: 10, 2: 4 });
+    tournament = play(tournament, 0, { 1: 2, 2: 3 });
+    expect(tournament.rounds[0].scores).toEqual({ 1: 2, 2: 3 });
+    expect(standings(tournament).map((s) => s.total)).toEqual([3, 2]);
+  });
+
+  it("keep the current round in place when another is removed", () => {
+    const tournament = { ...league(3), current: 2 };
+    expect(removeRound(tournament, 0).current).toBe(1);
+    expect(removeRound(tournament, 2).current).toBeNull();
+    expect(removeRound(tournament, 1).rounds.map((r) => r.id)).toEqual([
+      "puz-0",
+      "puz-2",
+    ]);
+  });
+
+  it("come up next in order, then wrap to any left unplayed", () => {
+    let tournament = league(3);
+    expect(nextRound(tournament)).toBe(0);
+    tournament = play(tournament, 1, { 1: 1 });
+    expect(nextRound(tournament)).toBe(2);
+    tournament = play(tournament, 2, { 1: 1 });
+    expect(nextRound(tournament)).toBe(0);
+    tournament = play(tournament, 0, { 1: 1 });
+    expect(nextRound(tournament)).toBeNull();
+  });
+
+  it("don't bring a file's progress along", () => {
+    const tournament = addRound(createTournament(""), "id", {
+      ...puz,
+      fill: ["A", "", "", ""],
+      owners: [1, null, null, null],
+      teams,
+    });
+    const [round] = tournament.rounds;
+    expect(round.puz.fill).toBeUndefined();
+    expect(round.puz.owners).toBeUndefined();
+    expect(round.puz.teams).toBeUndefined();
+  });
+});
+
+describe("saving", () => {
+  it("round-trips through storage", () => {
+    const storage = memoryStorage();
+    const tournament = play(league(2), 0, { 1: 5, 2: 7 });
+    writeTournament(tournament, storage);
+    expect(readTournament(storage)).toEqual(tournament);
+    writeTournament(null, storage);
+    expect(readTournament(storage)).toBeNull();
+  });
+
+  it("drops a corrupt entry instead of failing", () => {
+    const storage = memoryStorage();
+    storage.setItem("team-crossword:tournament", "{not json");
+    expect(readTournament(storage)).toBeNull();
+    storage.setItem("team-crossword:tournament", JSON.stringify({ name: "x" }));
+    expect(readTournament(storage)).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+import type { GameState, Team } from "./game";
+import type { ParsedPuz } from "./puz";
+
+// A tournament is a queue of puzzles played by one roster of teams. Each
+// round's final scores are kept, weighted, and added up into the standings.
+// It lives in localStorage, so a league can pick it up again next week.
+
+export type TournamentRound = {
+  id: string; // puzzle hash, the same one that keys the game's save
+  title: string;
+  puz: ParsedPuz;
+  weight: number; // multiplies the round's scores in the standings
+  scores: Record<number, number> | null; // by team id, once it has been played
+};
+
+export type Tournament = {
+  name: string;
+  teams: Team[]; // the roster, carried into every round
+  rounds: TournamentRound[];
+  current: number | null; // round being played
+  createdAt: number; // epoch ms
+};
+
+export type Standing = {
+  team: Team;
+  total: number; // weighted, over the rounds played
+  rounds: Array<number | null>; // unweighted score per round
+};
+
+const STORAGE_KEY = "team-crossword:tournament";
+
+export function createTournament(name: string, teams: Team[] = []): Tournament {
+  return {
+    name: name.trim() || "Tournament",
+    teams,
+    rounds: [],
+    current: null,
+    createdAt: Date.now(),
+  };
+}
+
+export function addRound(
+  tournament: Tournament,
+  id: string,
+  puz: ParsedPuz,
+): Tournament {
+  const round: TournamentRound = {
+    id,
+    title: puz.title || "Untitled puzzle",
+    // A file exported mid-game would bring its progress into the round
+    puz: { ...puz, fill: undefined, owners: undefined, teams: undefined },
+    weight: 1,
+    scores: null,
+  };
+  return { ...tournament, rounds: [...tournament.rounds, round] };
+}
+
+export function removeRound(tournament: Tournament, index: number): Tournament {
+  let { current } = tournament;
+  if (current === index) current = null;
+  else if (current != null && current > index) current -= 1;
+  return {
+    ...tournament,
+    rounds: tournament.rounds.filter((_, i) => i !== index),
+    current,
+  };
+}
+
+export function setRoundWeight(
+  tournament: Tournament,
+  index: number,
+  weight: number,
+): Tournament {
+  if (!Number.isFinite(weight) || weight < 0) return tournament;
+  return {
+    ...tournament,
+    rounds: tournament.rounds.map((r, i) =>
+      i === index ? { ...r, weight } : r,
+    ),
+  };
+}
+
+// The puzzle to load for round `index`, carrying the roster into it
+export function roundPuzzle(tournament: Tournament, index: number): ParsedPuz {
+  const { puz } = tournament.rounds[index];
+  return tournament.teams.length ? { ...puz, teams: tournament.teams } : puz;
+}
+
+// The round to play next: the first unplayed one after the current round,
+// else any unplayed one
+export function nextRound(tournament: Tournament): number | null {
+  const current = tournament.current ?? -1;
+  const unplayed = tournament.rounds
+    .map((r, i) => (r.scores || i === current ? -1 : i))
+    .filter((i) => i >= 0);
+  if (!unplayed.length) return null;
+  return unplayed.find((i) => i > current) ?? unplayed[0];
+}
+
+// Keeps the roster of the round being played, so the standings list every
+// team before any round is over
+export function setRoster(tournament: Tournament, teams: Team[]): Tournament {
+  if (JSON.stringify(tournament.teams) === JSON.stringify(teams)) {
+    return tournament;
+  }
+  return { ...tournament, teams };
+}
+
+// Keeps the finished game's scores for the current round, and its roster for
+// the rounds to come. Playing a round again replaces its scores.
+export function recordRound(
+  tournament: Tournament,
+  game: GameState,
+  scores: Map<number, number>,
+): Tournament {
+  const { current } = tournament;
+  if (current == null) return tournament;
+  return {
+    ...tournament,
+    teams: game.teams,
+    rounds: tournament.rounds.map((r, i) =>
+      i === current ? { ...r, scores: Object.fromEntries(scores) } : r,
+    ),
+  };
+}
+
+// Teams by weighted total, best first
+export function standings(tournament: Tournament): Standing[] {
+  return tournament.teams
+    .map((team) => {
+      const rounds = tournament.rounds.map((r) =>
+        r.scores ? (r.scores[team.id] ?? 0) : null,
+      );
+      const total = tournament.rounds.reduce(
+        (sum, r, i) => sum + (rounds[i] ?? 0) * r.weight,
+        0,
+      );
+      return { team, total, rounds };
+    })
+    .sort((a, b) => b.total - a.total);
+}
+
+export function readTournament(
+  storage: Storage = localStorage,
+): Tournament | null {
+  const raw = storage.getItem(STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const tournament = JSON.parse(raw) as Tournament;
+    return Array.isArray(tournament?.rounds) ? tournament : null;
+  } catch {
+    return null; // corrupt entry; start over rather than break the page
+  }
+}
+
+export function writeTournament(
+  tournament: Tournament | null,
+  storage: Storage = localStorage,
+): void {
+  try {
+    if (tournament) storage.setItem(STORAGE_KEY, JSON.stringify(tournament));
+    else storage.removeItem(STORAGE_KEY);
+  } catch (err) {
+    // Quota exceeded or storage disabled; the tournament lasts this visit
+    console.warn("[tournament] could not save tournament", err);
+  }
+}
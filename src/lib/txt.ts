@@ -0,0 +1,110 @@
+import {
+  buildEntries,
+  type Cell,
+  type ParsedPuz,
+  puzzleFromClues,
+} from "./puz";
+
+// Across Lite text reader (the `<ACROSS PUZZLE>` / `<ACROSS PUZZLE V2>` format
+// constructors type by hand). Each `<SECTION>` tag is followed by indented
+// lines. Clues carry no numbers: they are listed in grid order, so we number
+// the grid ourselves and hand them out in sequence.
+
+const HEADER = /^<ACROSS PUZZLE( V2)?>$/i;
+
+export function looksLikeAcrossLiteText(text: string): boolean {
+  return /^<ACROSS PUZZLE( V2)?>/i.test(text.trimStart());
+}
+
+function readSections(text: string): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  let current: string[] | null = null;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    const tag = /^<([A-Z ]+)>$/i.exec(line)?.[1].toUpperCase();
+    if (tag) {
+      current = [];
+      sections.set(tag, current);
+    } else if (current && line) {
+      current.push(line);
+    }
+  }
+  return sections;
+}
+
+export function parseAcrossLiteText(text: string): ParsedPuz {
+  const firstLine = text.trimStart().split(/\r?\n/, 1)[0].trim();
+  if (!HEADER.test(firstLine)) {
+    throw new Error("Invalid Across Lite text: missing <ACROSS PUZZLE> header");
+  }
+  const sections = readSections(text);
+  const rows = sections.get("GRID") ?? [];
+  if (!rows.length) throw new Error("Invalid Across Lite text: empty <GRID>");
+
+  const size = /^(\d+)\s*x\s*(\d+)$/i.exec(sections.get("SIZE")?.[0] ?? "");
+  const width = size ? Number(size[1]) : rows[0].length;
+  const height = size ? Number(size[2]) : rows.length;
+  if (rows.length !== height || rows.some((row) => row.length !== width)) {
+    throw new Error(
+      `Invalid Across Lite text: <GRID> does not match <SIZE> ${width}x${height}`,
+    );
+  }
+
+  // V2 rebus lines look like "1:HEART:H"; "MARK;" means lowercase letters in
+  // the grid are circled
+  const rebus = new Map<string, string>();
+  let marked = false;
+  for (const line of sections.get("REBUS") ?? []) {
+    if (/^MARK;?$/i.test(line)) {
+      marked = true;
+      continue;
+    }
+    const [key, answer] = line.split(":");
+    if (key && answer) rebus.set(key, answer.toUpperCase());
+  }
+
+  const grid: Cell[] = [];
+  rows.forEach((row, r) => {
+    Array.from(row).forEach((ch, c) => {
+      const isBlock = ch === ".";
+      const cell: Cell = {
+        row: r,
+        col: c,
+        index: r * width + c,
+        isBlock,
+        solution: isBlock ? "." : (rebus.get(ch) ?? ch.toUpperCase()),
+      };
+      if (marked && /[a-z]/.test(ch)) cell.circled = true;
+      grid.push(cell);
+    });
+  });
+
+  // Hand the listed clues to the entries in number order
+  const entries = buildEntries(grid, width, height);
+  const assign = (list: { number: number }[], key: "ACROSS" | "DOWN") => {
+    const lines = sections.get(key) ?? [];
+    if (lines.length !== list.length) {
+      throw new Error(
+        `Invalid Across Lite text: grid has ${list.length} ${key.toLowerCase()} entries but <${key}> lists ${lines.length} clues`,
+      );
+    }
+    return new Map(list.map((e, k) => [e.number, lines[k]]));
+  };
+
+  const meta = (key: string) => sections.get(key)?.join(" ") ?? "";
+  return puzzleFromClues(
+    {
+      width,
+      height,
+      title: meta("TITLE"),
+      author: meta("AUTHOR"),
+      copyright: meta("COPYRIGHT"),
+      format: "txt",
+    },
+    grid,
+    {
+      across: assign(entries.across, "ACROSS"),
+      down: assign(entries.down, "DOWN"),
+    },
+  );
+}
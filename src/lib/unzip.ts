@@ -0,0 +1,80 @@
+// Just enough ZIP support to open single-puzzle archives (zipped .jpz). Reads
+// the central directory and inflates stored or deflated entries with the
+// platform's DecompressionStream; no encryption, ZIP64 or multi-disk support.
+
+export type ZipEntry = {
+  name: string;
+  read: () => Promise<Uint8Array>;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export function isZip(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 4 &&
+    bytes[0] === 0x50 &&
+    bytes[1] === 0x4b &&
+    bytes[2] === 0x03 &&
+    bytes[3] === 0x04
+  );
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function listZipEntries(bytes: Uint8Array): ZipEntry[] {
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end-of-central-directory record sits in the last 64 KiB + 22 bytes
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (dv.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Invalid zip: no central directory");
+
+  const count = dv.getUint16(eocd + 10, true);
+  let cursor = dv.getUint32(eocd + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let n = 0; n < count; n++) {
+    if (dv.getUint32(cursor, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("Invalid zip: corrupt central directory");
+    }
+    const method = dv.getUint16(cursor + 10, true);
+    const compressedSize = dv.getUint32(cursor + 20, true);
+    const nameLength = dv.getUint16(cursor + 28, true);
+    const extraLength = dv.getUint16(cursor + 30, true);
+    const commentLength = dv.getUint16(cursor + 32, true);
+    const localOffset = dv.getUint32(cursor + 42, true);
+    const name = new TextDecoder().decode(
+      bytes.subarray(cursor + 46, cursor + 46 + nameLength),
+    );
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      name,
+      read: async () => {
+        if (dv.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+          throw new Error(`Invalid zip: bad local header for ${name}`);
+        }
+        const start =
+          localOffset +
+          30 +
+          dv.getUint16(localOffset + 26, true) +
+          dv.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(start, start + compressedSize);
+        if (method === 0) return data.slice();
+        if (method === 8) return inflateRaw(data);
+        throw new Error(`Unsupported zip compression method ${method}`);
+      },
+    });
+  }
+  return entries;
+}
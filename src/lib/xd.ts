@@ -0,0 +1,114 @@
+import { type Cell, type ParsedPuz, puzzleFromClues } from "./puz";
+
+// .xd reader. Spec reference: https://github.com/century-arcade/xd
+// An .xd file is plain text in sections: "Key: Value" headers, the grid
+// (`#` for blocks), then clues as "A1. Clue ~ ANSWER", then optional notes.
+// Older files separate sections with two blank lines; newer ones use
+// "## Metadata" / "## Grid" / "## Clues" / "## Notes" headings.
+
+const CLUE_LINE = /^([AD])(\d+)\.\s*(.*?)(?:\s+~\s+\S*)?$/;
+
+export function looksLikeXd(text: string): boolean {
+  const lines = text.split(/\r?\n/).map((l) => l.trim());
+  return (
+    lines.some((l) => /^##\s*grid$/i.test(l)) ||
+    (lines.some((l) => /^title\s*:/i.test(l)) &&
+      lines.some((l) => CLUE_LINE.test(l)))
+  );
+}
+
+function readSections(text: string): string[][] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  if (lines.some((l) => /^##\s*\w/.test(l))) {
+    const named = new Map<string, string[]>();
+    let current: string[] | null = null;
+    for (const line of lines) {
+      const heading = /^##\s*(\w+)/.exec(line)?.[1].toLowerCase();
+      if (heading) {
+        current = [];
+        named.set(heading, current);
+      } else if (current && line.trim()) {
+        current.push(line.trim());
+      }
+    }
+    return ["metadata", "grid", "clues"].map((k) => named.get(k) ?? []);
+  }
+  const sections: string[][] = [];
+  let current: string[] = [];
+  let blanks = 0;
+  for (const line of lines) {
+    if (!line.trim()) {
+      blanks++;
+      continue;
+    }
+    if (blanks >= 2 && current.length) {
+      sections.push(current);
+      current = [];
+    }
+    blanks = 0;
+    current.push(line.trim());
+  }
+  if (current.length) sections.push(current);
+  return sections;
+}
+
+export function parseXd(text: string): ParsedPuz {
+  const [headerLines = [], rows = [], clueLines = []] = readSections(text);
+  const headers = new Map<string, string>();
+  for (const line of headerLines) {
+    const m = /^([^:]+):\s*(.*)$/.exec(line);
+    if (m) headers.set(m[1].trim().toLowerCase(), m[2].trim());
+  }
+  if (!rows.length) throw new Error("Invalid .xd: missing grid");
+  const width = rows[0].length;
+  const height = rows.length;
+  if (rows.some((row) => row.length !== width)) {
+    throw new Error("Invalid .xd: grid rows have different lengths");
+  }
+
+  // "Rebus: 1=HEART 2=DIAMOND" maps grid characters to multi-letter answers
+  const rebus = new Map<string, string>();
+  for (const pair of (headers.get("rebus") ?? "").split(/\s+/)) {
+    const [key, answer] = pair.split("=");
+    if (key && answer) rebus.set(key, answer.toUpperCase());
+  }
+
+  const grid: Cell[] = [];
+  rows.forEach((row, r) => {
+    Array.from(row).forEach((ch, c) => {
+      // "_" marks a square outside an irregular grid
+      const isBlock = ch === "#" || ch === "_";
+      const cell: Cell = {
+        row: r,
+        col: c,
+        index: r * width + c,
+        isBlock,
+        solution: isBlock ? "." : (rebus.get(ch) ?? ch.toUpperCase()),
+      };
+      // Lowercase letters are special squares (circled or shaded)
+      if (/[a-z]/.test(ch)) cell.circled = true;
+      grid.push(cell);
+    });
+  });
+
+  const across = new Map<number, string>();
+  const down = new Map<number, string>();
+  for (const line of clueLines) {
+    const m = CLUE_LINE.exec(line);
+    if (!m) continue;
+    (m[1] === "A" ? across : down).set(Number(m[2]), m[3]);
+  }
+
+  return puzzleFromClues(
+    {
+      width,
+      height,
+      title: headers.get("title") ?? "",
+      author: headers.get("author") ?? "",
+      copyright: headers.get("copyright") ?? "",
+      format: "xd",
+    },
+    grid,
+    { across, down },
+  );
+}
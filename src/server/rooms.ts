@@ -0,0 +1,179 @@
+import { randomUUID } from "node:crypto";
+import { type WebSocket, WebSocketServer } from "ws";
+import {
+  applyAction,
+  type ClientMessage,
+  createRoom,
+  expireTurn,
+  generateRoomCode,
+  normalizeRoomCode,
+  type Player,
+  playerState,
+  type Room,
+  type ServerMessage,
+} from "../lib/room";
+
+// Standalone room server for networked play: `npm run rooms`, then point the
+// app at it with NEXT_PUBLIC_ROOM_SERVER (defaults to port 3001 on the same
+// host). Rooms live in memory and disappear when their last player leaves.
+
+const PORT = Number(process.env.ROOM_PORT) || 3001;
+const CLOCK_INTERVAL_MS = 500;
+
+type Connection = { room: Room; player: Player };
+
+const rooms = new Map<string, Room>();
+const connections = new Map<WebSocket, Connection>();
+const watchers = new Map<WebSocket, Room>();
+
+const send = (ws: WebSocket, msg: ServerMessage) => {
+  if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(msg));
+};
+
+const broadcast = (room: Room, msg: ServerMessage) => {
+  const data = JSON.stringify(msg);
+  for (const [ws, conn] of connections) {
+    if (conn.room === room && ws.readyState === ws.OPEN) ws.send(data);
+  }
+  for (const [ws, watched] of watchers) {
+    if (watched === room && ws.readyState === ws.OPEN) ws.send(data);
+  }
+};
+
+const welcome = (ws: WebSocket, room: Room, player: Player | null) =>
+  send(ws, {
+    type: "welcome",
+    code: room.code,
+    playerId: player?.id ?? null,
+    version: room.version,
+    state: playerState(room.state),
+    players: room.players,
+  });
+
+const enter = (ws: WebSocket, room: Room, name: string, isHost: boolean) => {
+  const player: Player = {
+    id: randomUUID(),
+    name: name.trim() || "Player",
+    teamId: null,
+    isHost,
+  };
+  room.players.push(player);
+  connections.set(ws, { room, player });
+  welcome(ws, room, player);
+  broadcast(room, { type: "players", players: room.players });
+};
+
+const leave = (ws: WebSocket) => {
+  watchers.delete(ws);
+  const conn = connections.get(ws);
+  if (!conn) return;
+  connections.delete(ws);
+  const { room, player } = conn;
+  room.players = room.players.filter((p) => p.id !== player.id);
+  if (room.players.length === 0) {
+    rooms.delete(room.code);
+    return;
+  }
+  // Hand hosting to the longest-connected player
+  if (player.isHost) room.players[0].isHost = true;
+  broadcast(room, { type: "players", players: room.players });
+};
+
+const handle = (ws: WebSocket, msg: ClientMessage) => {
+  const conn = connections.get(ws);
+  switch (msg.type) {
+    case "create": {
+      leave(ws);
+      const room = createRoom(generateRoomCode(rooms));
+      rooms.set(room.code, room);
+      enter(ws, room, msg.name, true);
+      return;
+    }
+    case "join": {
+      const room = rooms.get(normalizeRoomCode(msg.code));
+      if (!room) return send(ws, { type: "error", message: "No such room" });
+      leave(ws);
+      enter(ws, room, msg.name, false);
+      return;
+    }
+    case "watch": {
+      const room = rooms.get(normalizeRoomCode(msg.code));
+      if (!room) return send(ws, { type: "error", message: "No such room" });
+      leave(ws);
+      watchers.set(ws, room);
+      welcome(ws, room, null);
+      return;
+    }
+    case "sync": {
+      if (conn) return welcome(ws, conn.room, conn.player);
+      const watched = watchers.get(ws);
+      if (watched) welcome(ws, watched, null);
+      return;
+    }
+    case "pickTeam": {
+      if (!conn) return;
+      const { room, player } = conn;
+      // Players can't switch sides mid-game, only join one if they have none
+      if (room.state.started && player.teamId != null) {
+        return send(ws, {
+          type: "error",
+          message: "Teams are set once the game starts",
+        });
+      }
+      if (
+        msg.teamId != null &&
+        !room.state.teams.some((t) => t.id === msg.teamId)
+      ) {
+        return send(ws, { type: "error", message: "No such team" });
+      }
+      player.teamId = msg.teamId;
+      broadcast(room, { type: "players", players: room.players });
+      return;
+    }
+    case "action": {
+      if (!conn)
+        return send(ws, { type: "error", message: "Join a room first" });
+      const { room, player } = conn;
+      const result = applyAction(room, player, msg.action);
+      if ("error" in result) {
+        return send(ws, { type: "error", message: result.error });
+      }
+      if (result.patch) broadcast(room, { type: "patch", patch: result.patch });
+      if (msg.action.type === "addTeam") {
+        broadcast(room, { type: "players", players: room.players });
+      }
+      return;
+    }
+  }
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on("connection", (ws) => {
+  ws.on("message", (data) => {
+    let msg: ClientMessage;
+    try {
+      msg = JSON.parse(data.toString());
+    } catch {
+      return send(ws, { type: "error", message: "Malformed message" });
+    }
+    try {
+      handle(ws, msg);
+    } catch (err) {
+      console.error("[rooms] failed to handle message", err);
+      send(ws, { type: "error", message: "Server error" });
+    }
+  });
+  ws.on("close", () => leave(ws));
+});
+
+// Shot clocks: pass the turn in any room whose current team has run out of time
+setInterval(() => {
+  const now = Date.now();
+  for (const room of rooms.values()) {
+    const patch = expireTurn(room, now);
+    if (patch) broadcast(room, { type: "patch", patch });
+  }
+}, CLOCK_INTERVAL_MS);
+
+console.log(`[rooms] listening on ws://localhost:${PORT}`);